@@ -1,4 +1,5 @@
-import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useImperativeHandle, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { flushSync } from "react-dom";
 import * as d3 from "d3";
 import SearchIconSvg from "./assets/icons/Search.svg";
 import FullscreenIconSvg from "./assets/icons/Fullscreen.svg";
@@ -10,6 +11,44 @@ import RerootIconSvg from "./assets/icons/Reroot.svg";
 import AddLeafIconSvg from "./assets/icons/AddLeaf.svg";
 import FlipIconSvg from "./assets/icons/Flip.svg";
 import DeleteIconSvg from "./assets/icons/Delete.svg";
+import { APP_VERSION } from "./version";
+import {
+  DEFAULT_NEWICK_EXPORT_OPTIONS,
+  forEachNode,
+  listNodes,
+  computeTreeLayout,
+  handleTreeWorkerRequest,
+  inflateTree,
+  NEWICK_QUOTING_OPTIONS,
+  applyInternalLabel,
+  collectTips,
+  detectSupportPercentScale,
+  diagnoseNewickText,
+  extractTreeEntries,
+  formatAnnotationValue,
+  formatInternalLabel,
+  formatSupportLabel,
+  isNexusText,
+  parseAnnotationScalar,
+  parseAnnotationValue,
+  parseFigTreeSettings,
+  parseNewick,
+  toFigTreeNexus,
+  toNewick,
+  toTreeLayoutInput,
+} from "./newick";
+import type {
+  NewickDiagnostic,
+  NewickExportOptions,
+  NewickQuoting,
+  NexusTree,
+  SupportScale,
+  TreeLayoutInput,
+  TreeLayoutPositions,
+  TreeNode,
+  TreeWorkerRequest,
+  TreeWorkerResponse,
+} from "./newick";
 
 type LayoutMode = "phylogram" | "cladogram";
 type ExportSizeMode = "auto" | "custom";
@@ -21,23 +60,12 @@ type ScaleBarLabelPosition =
   | "bottom-center"
   | "bottom-end";
 type ScaleBarCorner = "top-left" | "top-right" | "bottom-left" | "bottom-right";
-
-type TreeNode = {
-  __id?: number;
-  __edgeColor?: string;
-  __edgeWidth?: number;
-  __color?: string;
-  __nodeSize?: number;
-  __labelBold?: boolean;
-  __labelFontSize?: number;
-  __cladoOffset?: number;
-  __collapsed?: boolean;
-  __collapsedTipCount?: number;
-  __isCollapsedPlaceholder?: boolean;
-  name?: string;
-  length?: number;
-  children?: TreeNode[];
-  [key: string]: unknown;
+type TreeCollectionEntry = {
+  name: string;
+  tree: TreeNode;
+  history: TreeNode[];
+  historyIndex: number;
+  rooted?: boolean;
 };
 
 type SelectionState =
@@ -47,7 +75,7 @@ type SelectionState =
 type ContextMenuState = { visible: boolean; left: number; top: number };
 type TooltipState = { visible: boolean; left: number; top: number; text: string };
 
-type HierarchyNodeWithLayout = d3.HierarchyNode<TreeNode> & { _x?: number };
+type HierarchyNodeWithLayout = d3.HierarchyNode<TreeNode>;
 
 type PositionedNode = {
   x: number;
@@ -68,6 +96,7 @@ type LayoutSnapshot = {
   xExtent: [number, number];
   yExtent: [number, number];
 };
+const EMPTY_LAYOUT: LayoutSnapshot = { nodes: [], links: [], totalLength: 1, xExtent: [0, 0], yExtent: [0, 0] };
 
 // const BUTTON_CLASSES = "px-4 py-2 rounded-xl bg-[#dba633] text-white text-base font-bold  transition-all duration-200 hover:bg-[#dba633] hover:shadow-xl active:translate-y-[1px] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#dba633]";
 const BUTTON_CLASSES = "px-4 py-2 rounded-xl bg-[#dba633]/10 text-[#c28606] border border-[#c28606] text-base font-bold transition-all duration-200 hover:bg-[#dba633]/30 hover:shadow-xl active:translate-y-[1px] focus:outline-none";
@@ -78,6 +107,18 @@ const COLOR_PRESETS = ["#ff4b00","#ff8082","#f6aa00","#03af7a","#4dc4ff","#005af
 const HOMEPAGE_URL = "https://yawak.jp/PhyloWeaver/";
 const GITHUB_URL = "https://github.com/YawakoK/PhyloWeaver";
 const HISTORY_LIMIT = 50;
+// Above this many tips the tree view is drawn on a canvas instead of as SVG elements.
+const CANVAS_RENDER_TIP_THRESHOLD = 3000;
+// Export previews of canvas-drawn trees wait this long after the last change before rebuilding.
+const EXPORT_PREVIEW_CANVAS_DELAY_MS = 500;
+// Zoomed-out level of detail: leaf labels are hidden when rows are closer than this on screen,
+// and clades shorter than LOD_CLADE_HEIGHT_PX are drawn as temporary triangles.
+const LOD_MIN_LABEL_SPACING_PX = 6;
+const LOD_CLADE_HEIGHT_PX = 8;
+// Prune dialog preview: labels and branches of the tips and clades that would be removed.
+const PRUNE_PREVIEW_LABEL_COLOR = "#dc2626";
+const PRUNE_PREVIEW_EDGE_COLOR = "#f87171";
+const LABEL_FONT_STACK = "system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif";
 const READABLE_FIT_SCALE = 0.85;
 const DEFAULT_EXPORT_WIDTH = 1600;
 const DEFAULT_EXPORT_HEIGHT = 1000;
@@ -105,7 +146,35 @@ const UI_TEXT: Record<Locale, Record<string, string>> = {
     uploadNewick: "Upload NEWICK",
     loadExample: "Load example",
     uploadHelper: "Uploaded text appears below.",
+    importMetadata: "Import metadata",
+    metadataReport: "Metadata import",
+    metadataMatched: "Matched tips",
+    metadataKeyColumn: "Key column",
+    metadataColumns: "Columns",
+    metadataUnmatchedRows: "Rows without a matching tip",
+    metadataUnmatchedTips: "Tips without metadata",
+    importItol: "Import iTOL annotations",
+    archivePick: "Choose a tree from",
+    dropTreeFile: "Drop a tree file (.nwk, .nex, .xml, .gz, .zip) to load it",
+    parsingTree: "Reading tree…",
+    layingOutTree: "Laying out tree…",
+    itolReport: "iTOL import",
+    itolApplied: "Applied lines",
+    itolUnmatched: "IDs not found in the tree",
+    itolRangesApproximated: "Ranges are shown by coloring the branches of each range's subtree; shaded range boxes are not drawn.",
+    dismiss: "Dismiss",
+    leafLabelTemplate: "Leaf label template",
+    leafLabelTemplateHelp: "Placeholders",
+    newickError: "Error",
+    newickWarning: "Warning",
+    lineLabel: "Line",
+    columnLabel: "column",
+    jumpToError: "Jump to error",
+    moreDiagnostics: "more",
     applyNewick: "Apply NEWICK",
+    treeCollection: "Tree collection",
+    previousTree: "Previous tree",
+    nextTree: "Next tree",
     statsTitle: "Current tree stats",
     tips: "Leaves",
     internalNodes: "Internal nodes",
@@ -116,11 +185,44 @@ const UI_TEXT: Record<Locale, Record<string, string>> = {
     layoutLabel: "Layout",
     edgeWidth: "Edge width",
     verticalSpacing: "Vertical spacing",
+    levelOfDetail: "Simplify when zoomed out",
+    levelOfDetailHint: "Hides leaf labels that would overlap and draws tightly packed clades as triangles until you zoom in. Exports always show the full tree.",
     horizontalScale: "Horizontal scale",
     showSection: "Show",
     internalNodeLabelsSection: "Internal node labels",
     branchLengthsSection: "Branch lengths",
     supportValues: "Support values",
+    attributeStyling: "Attribute styling",
+    legend: "Legend",
+    legendEmpty: "Map a metadata column to a color or shape, or color nodes by hand, to build a legend.",
+    legendResetPosition: "Reset legend position",
+    legendShowSection: "Show section",
+    legendDragHint: "Drag the legend on the canvas to move it.",
+    moveUp: "Move up",
+    moveDown: "Move down",
+    attributeStylingEmpty: "Import metadata in the Data tab to style tips by attribute.",
+    styleNone: "None",
+    styleContinuous: "Continuous scale",
+    styleTooManyCategories: "Only the first categories are styled",
+    styleResetOverrides: "Reset to automatic palette",
+    styleLabelColor: "Label color",
+    styleEdgeColor: "Branch color",
+    styleTipColor: "Tip dot color",
+    styleTipShape: "Tip dot shape",
+    styleLabelBold: "Bold labels",
+    shapeCircle: "Circle",
+    shapeSquare: "Square",
+    shapeTriangle: "Triangle",
+    shapeDiamond: "Diamond",
+    shapeCross: "Cross",
+    shapeStar: "Star",
+    supportComponent: "Component",
+    supportAllComponents: "All (e.g. 95/0.98)",
+    supportComponentItem: "Value",
+    supportScale: "Scale",
+    supportScaleOriginal: "As in file",
+    supportPrecision: "Decimal places",
+    supportThreshold: "Hide below",
     nodeDots: "Node dots",
     textSize: "Text size",
     offset: "Offset",
@@ -131,7 +233,57 @@ const UI_TEXT: Record<Locale, Record<string, string>> = {
     collapse: "Collapse",
     expand: "Expand",
     reroot: "Reroot",
+    autoRoot: "Root",
+    autoRootTitle: "Automatic rooting",
+    autoRootHint: "Midpoint puts the root halfway along the longest tip-to-tip path. MAD (minimal ancestor deviation) picks the position where the tree looks most clock-like.",
+    midpointRooting: "Midpoint",
+    madRooting: "MAD",
+    rootPlacedOn: "Root placed on the branch to",
+    rootBranchSplit: "Branch length split (parent side + clade side)",
+    rootMidpointReason: "Midpoint of the longest tip-to-tip path",
+    rootMadReason: "Lowest ancestor deviation (root mean square)",
+    rootAmbiguity: "Root ambiguity index",
+    rootAmbiguityHint: "Values close to 1 mean another branch fits almost as well.",
+    rootUnchanged: "The tree was already rooted there.",
+    outgroupRooting: "Root with outgroup",
+    outgroupNamesPlaceholder: "Outgroup tip names, one per line",
+    outgroupFromNames: "Pasted names",
+    outgroupFromSelection: "Selected tips",
+    outgroupFromSearch: "Search matches",
+    outgroupTips: "Outgroup tips",
+    outgroupNotMonophyletic: "The outgroup is not monophyletic; these tips fall inside it",
+    outgroupMissing: "Names not found in the tree",
     flip: "Flip",
+    orderSection: "Order children",
+    orderBySize: "Clade size (ladderize)",
+    orderByName: "First tip name",
+    orderByMetadata: "Metadata column",
+    orderByLength: "Branch length",
+    orderAscending: "Ascending",
+    orderDescending: "Descending",
+    orderWholeTree: "Sort whole tree",
+    orderSelectedSubtree: "Sort selected subtree",
+    orderHint: "Ascending puts smaller clades, earlier names and lower values at the top. Tips without a value go last.",
+    polytomySection: "Collapse into polytomies",
+    polytomySupportPlaceholder: "Support below",
+    polytomyBySupport: "Collapse by support",
+    polytomyLengthPlaceholder: "Length below",
+    polytomyByLength: "Collapse short branches",
+    polytomyContracted: "Branches contracted",
+    polytomyNoneBySupport: "No internal branch has support below the threshold.",
+    polytomyNoneByLength: "No internal branch is shorter than the threshold.",
+    polytomyHint: "Contracts internal branches whose support (in the file's scale) or length is below the threshold; their subtrees join the parent node. The removed branch's length is added to each subtree's stem, so root-to-tip distances are kept. Branches without a value are left alone, and Undo restores the tree.",
+    pruneTips: "Prune",
+    pruneTitle: "Prune tips",
+    pruneNamesPlaceholder: "Tip names, one per line",
+    pruneUploadList: "Upload list",
+    pruneRemoveListed: "Remove these tips",
+    pruneKeepListed: "Keep only these tips",
+    pruneWillRemove: "Tips to remove (red in the tree)",
+    pruneWillRemain: "remaining",
+    pruneApply: "Apply",
+    pruneHint: "Clades left without tips are removed too, and nodes left with a single child are merged into one branch whose length is the sum of both.",
+    pruneRemoved: "Tips removed",
     addLeaf: "Add leaf",
     delete: "Delete",
     edgeLabelColor: "Edge / label color",
@@ -145,6 +297,29 @@ const UI_TEXT: Record<Locale, Record<string, string>> = {
     reset: "Reset",
     textExports: "Text exports",
     leafList: "Leaf list",
+    figTreeNexus: "NEXUS (FigTree)",
+    newickOptions: "NEWICK options",
+    newickIncludeLengths: "Branch lengths",
+    newickCladogramNoLengths: "not written for cladograms",
+    newickLengthFormat: "Length format",
+    newickLengthFixed: "Decimal",
+    newickLengthScientific: "Scientific",
+    newickLengthPrecision: "Decimal places",
+    newickInternalNames: "Internal node names",
+    newickSupports: "Support values",
+    newickAnnotations: "NHX / BEAST annotations",
+    newickQuoting: "Label quoting",
+    newickQuotingAuto: "When needed",
+    newickQuotingAlways: "Always",
+    newickQuotingNever: "Never (replace with _)",
+    newickRootMarker: "Root marker",
+    newickRootNone: "None",
+    newickCollapsed: "Collapsed clades",
+    newickCollapsedExpanded: "Write expanded",
+    newickCollapsedPlaceholder: "Single tip",
+    newickNameEmptyLeaves: "Name empty leaves \"Unnamed\"",
+    resetDefaults: "Reset to defaults",
+    saveProject: "Save project",
     currentNewick: "NEWICK",
     copy: "Copy",
     copyPng: "Copy PNG",
@@ -200,7 +375,35 @@ const UI_TEXT: Record<Locale, Record<string, string>> = {
     uploadNewick: "NEWICKをアップロード",
     loadExample: "例を読み込む",
     uploadHelper: "読み込んだテキストは下に表示されます。",
+    importMetadata: "メタデータを読み込む",
+    metadataReport: "メタデータの読み込み",
+    metadataMatched: "一致した葉",
+    metadataKeyColumn: "照合に使った列",
+    metadataColumns: "列",
+    metadataUnmatchedRows: "一致する葉がない行",
+    metadataUnmatchedTips: "メタデータのない葉",
+    importItol: "iTOLアノテーションを読み込む",
+    archivePick: "ツリーを選択:",
+    dropTreeFile: "ツリーファイル (.nwk, .nex, .xml, .gz, .zip) をドロップして読み込む",
+    parsingTree: "ツリーを読み込み中…",
+    layingOutTree: "ツリーを配置中…",
+    itolReport: "iTOLの読み込み",
+    itolApplied: "適用した行",
+    itolUnmatched: "ツリーに見つからないID",
+    itolRangesApproximated: "範囲（range）は部分木の枝の色で表示され、背景の塗りつぶしは描画されません。",
+    dismiss: "閉じる",
+    leafLabelTemplate: "葉ラベルのテンプレート",
+    leafLabelTemplateHelp: "使える項目",
+    newickError: "エラー",
+    newickWarning: "警告",
+    lineLabel: "行",
+    columnLabel: "列",
+    jumpToError: "エラー箇所へ移動",
+    moreDiagnostics: "件 (その他)",
     applyNewick: "NEWICKを適用",
+    treeCollection: "系統樹コレクション",
+    previousTree: "前の系統樹",
+    nextTree: "次の系統樹",
     statsTitle: "現在の系統樹情報",
     tips: "葉",
     internalNodes: "内部ノード",
@@ -211,11 +414,44 @@ const UI_TEXT: Record<Locale, Record<string, string>> = {
     layoutLabel: "レイアウト",
     edgeWidth: "枝の太さ",
     verticalSpacing: "上下間隔",
+    levelOfDetail: "縮小時に簡略表示",
+    levelOfDetailHint: "重なる葉ラベルを隠し、密集したクレードを拡大するまで三角形で表示します。エクスポートには常にツリー全体が含まれます。",
     horizontalScale: "横幅スケール",
     showSection: "表示",
     internalNodeLabelsSection: "内部ノードラベル",
     branchLengthsSection: "枝長",
     supportValues: "サポート値",
+    attributeStyling: "属性によるスタイル",
+    legend: "凡例",
+    legendEmpty: "メタデータの列を色や形に割り当てるか、ノードに色を付けると凡例が作成されます。",
+    legendResetPosition: "凡例の位置をリセット",
+    legendShowSection: "この項目を表示",
+    legendDragHint: "キャンバス上で凡例をドラッグして移動できます。",
+    moveUp: "上へ",
+    moveDown: "下へ",
+    attributeStylingEmpty: "データタブでメタデータを読み込むと、属性で葉をスタイル設定できます。",
+    styleNone: "なし",
+    styleContinuous: "連続スケール",
+    styleTooManyCategories: "先頭のカテゴリのみスタイルが適用されます",
+    styleResetOverrides: "自動パレットに戻す",
+    styleLabelColor: "ラベルの色",
+    styleEdgeColor: "枝の色",
+    styleTipColor: "葉の点の色",
+    styleTipShape: "葉の点の形",
+    styleLabelBold: "ラベルを太字",
+    shapeCircle: "円",
+    shapeSquare: "四角",
+    shapeTriangle: "三角",
+    shapeDiamond: "ひし形",
+    shapeCross: "十字",
+    shapeStar: "星",
+    supportComponent: "表示する値",
+    supportAllComponents: "すべて (例: 95/0.98)",
+    supportComponentItem: "値",
+    supportScale: "スケール",
+    supportScaleOriginal: "ファイルのまま",
+    supportPrecision: "小数点以下の桁数",
+    supportThreshold: "非表示にする閾値",
     nodeDots: "ノード表示",
     textSize: "文字サイズ",
     offset: "オフセット",
@@ -226,7 +462,57 @@ const UI_TEXT: Record<Locale, Record<string, string>> = {
     collapse: "折りたたみ",
     expand: "展開",
     reroot: "再ルート化",
+    autoRoot: "ルート",
+    autoRootTitle: "自動ルート化",
+    autoRootHint: "中点法は最も長い葉間経路の中央にルートを置きます。MAD（最小祖先偏差）法は分子時計に最もよく合う位置を選びます。",
+    midpointRooting: "中点",
+    madRooting: "MAD",
+    rootPlacedOn: "ルートを置いた枝（この先）",
+    rootBranchSplit: "枝長の分割（親側 + クレード側）",
+    rootMidpointReason: "最も長い葉間経路の中点",
+    rootMadReason: "祖先偏差（二乗平均平方根）が最小",
+    rootAmbiguity: "ルート曖昧度指数",
+    rootAmbiguityHint: "1 に近いほど、他の枝もほぼ同じくらい当てはまります。",
+    rootUnchanged: "すでにこの位置でルート化されています。",
+    outgroupRooting: "外群でルート化",
+    outgroupNamesPlaceholder: "外群の葉の名前（1行に1つ）",
+    outgroupFromNames: "貼り付けた名前",
+    outgroupFromSelection: "選択中の葉",
+    outgroupFromSearch: "検索結果",
+    outgroupTips: "外群の葉",
+    outgroupNotMonophyletic: "外群は単系統ではありません。次の葉が外群の内側に入っています",
+    outgroupMissing: "ツリーに見つからない名前",
     flip: "反転",
+    orderSection: "子の並べ替え",
+    orderBySize: "クレードの大きさ（ラダー化）",
+    orderByName: "先頭の葉の名前",
+    orderByMetadata: "メタデータ列",
+    orderByLength: "枝長",
+    orderAscending: "昇順",
+    orderDescending: "降順",
+    orderWholeTree: "ツリー全体を並べ替え",
+    orderSelectedSubtree: "選択した部分木を並べ替え",
+    orderHint: "昇順では小さいクレード、名前の早いもの、小さい値が上に来ます。値のない葉は最後になります。",
+    polytomySection: "多分岐にまとめる",
+    polytomySupportPlaceholder: "この支持値未満",
+    polytomyBySupport: "支持値でまとめる",
+    polytomyLengthPlaceholder: "この枝長未満",
+    polytomyByLength: "短い枝をまとめる",
+    polytomyContracted: "縮約した枝",
+    polytomyNoneBySupport: "閾値未満の支持値を持つ内部枝はありません。",
+    polytomyNoneByLength: "閾値より短い内部枝はありません。",
+    polytomyHint: "支持値（ファイルのスケール）または枝長が閾値未満の内部枝を縮約し、その部分木を親ノードにつなげます。取り除いた枝の長さは各部分木の根元の枝に加えられるため、根から葉までの距離は変わりません。値のない枝はそのままで、元に戻す操作で復元できます。",
+    pruneTips: "剪定",
+    pruneTitle: "葉の剪定",
+    pruneNamesPlaceholder: "葉の名前（1行に1つ）",
+    pruneUploadList: "リストを読み込む",
+    pruneRemoveListed: "これらの葉を削除",
+    pruneKeepListed: "これらの葉だけを残す",
+    pruneWillRemove: "削除される葉（ツリー上で赤色）",
+    pruneWillRemain: "残り",
+    pruneApply: "適用",
+    pruneHint: "葉がなくなったクレードも削除され、子が1つだけになったノードは枝長を合計した1本の枝にまとめられます。",
+    pruneRemoved: "削除した葉",
     addLeaf: "葉を追加",
     delete: "削除",
     edgeLabelColor: "枝／ラベル色",
@@ -240,6 +526,29 @@ const UI_TEXT: Record<Locale, Record<string, string>> = {
     reset: "リセット",
     textExports: "テキスト出力",
     leafList: "葉リスト",
+    figTreeNexus: "NEXUS（FigTree）",
+    newickOptions: "NEWICKの出力設定",
+    newickIncludeLengths: "枝長",
+    newickCladogramNoLengths: "クラドグラムでは出力しません",
+    newickLengthFormat: "枝長の形式",
+    newickLengthFixed: "小数",
+    newickLengthScientific: "指数表記",
+    newickLengthPrecision: "小数点以下の桁数",
+    newickInternalNames: "内部ノード名",
+    newickSupports: "サポート値",
+    newickAnnotations: "NHX / BEASTアノテーション",
+    newickQuoting: "ラベルの引用符",
+    newickQuotingAuto: "必要なときのみ",
+    newickQuotingAlways: "常に付ける",
+    newickQuotingNever: "付けない (_に置換)",
+    newickRootMarker: "ルートマーカー",
+    newickRootNone: "なし",
+    newickCollapsed: "折りたたんだクレード",
+    newickCollapsedExpanded: "展開して出力",
+    newickCollapsedPlaceholder: "1つの葉として出力",
+    newickNameEmptyLeaves: "名前のない葉を\"Unnamed\"にする",
+    resetDefaults: "初期設定に戻す",
+    saveProject: "プロジェクトを保存",
     currentNewick: "現在のNEWICK",
     copy: "コピー",
     copyPng: "PNGをコピー",
@@ -365,89 +674,1405 @@ function ColorSelector({ selectedColor, onSelect, compact = false }: ColorSelect
     </div>
   );
 }
-/** ---------- NEWICK ---------- */
-function parseNewick(newick: string): TreeNode {
-  let i = 0;
-  function eatWhitespace() {
-    while (i < newick.length && /\s/.test(newick[i])) i++;
+type HoverTooltipHandle = { show: (left: number, top: number, text: string) => void; hide: () => void };
+// Holds its own state so pointer moves re-render only the tooltip, not the editor (and its canvas).
+function HoverTooltip({ ref }: { ref: React.Ref<HoverTooltipHandle> }){
+  const [hover,setHover]=useState<TooltipState>({visible:false,left:0,top:0,text:""});
+  useImperativeHandle(ref, ()=>({
+    show: (left, top, text)=>setHover(prev=>
+      prev.visible && prev.left === left && prev.top === top && prev.text === text ? prev : { visible:true, left, top, text }),
+    hide: ()=>setHover(prev=> prev.visible ? { ...prev, visible:false } : prev),
+  }),[]);
+  if(!hover.visible) return null;
+  return (
+    <div
+      className="pointer-events-none fixed z-50 max-w-sm whitespace-pre-line rounded-xl bg-slate-900/90 px-3 py-2 text-sm text-white shadow-2xl"
+      style={{ left: hover.left, top: hover.top }}
+    >
+      {hover.text}
+    </div>
+  );
+}
+/** ---------- PhyloXML ---------- */
+// `rooted` is set when the file states whether the tree is rooted (PhyloXML `rooted`, NEXUS [&R]/[&U]).
+type ParsedTreeEntry = { name: string; tree: TreeNode; rooted?: boolean };
+
+// Styling that has no PhyloXML element travels as <property ref="phyloweaver:...">.
+const PHYLOWEAVER_PROPERTY_PREFIX = "phyloweaver:";
+const ANNOTATION_PROPERTY_PREFIX = "annotation:";
+
+function isPhyloXmlText(text: string): boolean {
+  return /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<phyloxml\b/i.test(text);
+}
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+function hexToRgb(color: string): [number, number, number] | null {
+  const match = color.trim().match(/^#?([0-9a-f]{6})$/i);
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+function rgbToHex(red: number, green: number, blue: number): string {
+  const channel = (v: number) => Math.max(0, Math.min(255, Math.round(v))).toString(16).padStart(2, "0");
+  return `#${channel(red)}${channel(green)}${channel(blue)}`;
+}
+function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter((el) => el.localName === localName);
+}
+function childText(parent: Element, localName: string): string | null {
+  const el = childElements(parent, localName)[0];
+  return el ? (el.textContent ?? "").trim() : null;
+}
+function parseXmlDocument(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  const error = doc.getElementsByTagName("parsererror")[0];
+  if (error) throw new Error("XML parse error: " + (error.textContent ?? "").trim().split("\n")[0]);
+  return doc;
+}
+// Node styling fields written to XML formats as "phyloweaver:<key>" properties/metas.
+const STYLE_PROPERTY_FIELDS: { key: string; field: keyof TreeNode; datatype: "xsd:boolean" | "xsd:string" | "xsd:double" }[] = [
+  { key: "collapsed", field: "__collapsed", datatype: "xsd:boolean" },
+  { key: "label_bold", field: "__labelBold", datatype: "xsd:boolean" },
+  { key: "label_color", field: "__color", datatype: "xsd:string" },
+  { key: "label_font_size", field: "__labelFontSize", datatype: "xsd:double" },
+  { key: "node_size", field: "__nodeSize", datatype: "xsd:double" },
+  { key: "clado_offset", field: "__cladoOffset", datatype: "xsd:double" },
+];
+function collectStyleProperties(node: TreeNode): { key: string; datatype: string; value: string }[] {
+  return STYLE_PROPERTY_FIELDS.flatMap(({ key, field, datatype }) => {
+    const value = node[field];
+    if (value === undefined || value === null || value === false || value === "") return [];
+    if (datatype === "xsd:double" && !(typeof value === "number" && Number.isFinite(value))) return [];
+    return [{ key, datatype, value: String(value) }];
+  });
+}
+function applyStyleProperty(node: TreeNode, key: string, value: string): boolean {
+  const spec = STYLE_PROPERTY_FIELDS.find((entry) => entry.key === key);
+  if (!spec) return false;
+  if (spec.datatype === "xsd:boolean") {
+    if (value === "true") node[spec.field] = true;
+  } else if (spec.datatype === "xsd:double") {
+    const numeric = Number(value);
+    if (Number.isFinite(numeric)) node[spec.field] = numeric;
+  } else {
+    node[spec.field] = value;
+  }
+  return true;
+}
+function applyPhyloXmlProperty(node: TreeNode, ref: string, value: string) {
+  if (ref.startsWith(PHYLOWEAVER_PROPERTY_PREFIX) && applyStyleProperty(node, ref.slice(PHYLOWEAVER_PROPERTY_PREFIX.length), value)) return;
+  const key = ref.startsWith(ANNOTATION_PROPERTY_PREFIX) ? ref.slice(ANNOTATION_PROPERTY_PREFIX.length) : ref;
+  node.__annotations = { ...(node.__annotations ?? {}), [key]: parseAnnotationValue(value) };
+}
+function parsePhyloXmlClade(rootEl: Element): TreeNode {
+  const root: TreeNode = {};
+  const stack: { el: Element; node: TreeNode }[] = [{ el: rootEl, node: root }];
+  while (stack.length) {
+    const { el, node } = stack.pop() as (typeof stack)[number];
+    const cladeEls = childElements(el, "clade");
+    if (cladeEls.length) {
+      const children = cladeEls.map((): TreeNode => ({}));
+      node.children = children;
+      cladeEls.forEach((cladeEl, k) => stack.push({ el: cladeEl, node: children[k] }));
+    }
+    readPhyloXmlCladeFields(el, node, cladeEls.length > 0);
+  }
+  return root;
+}
+function readPhyloXmlCladeFields(el: Element, node: TreeNode, internal: boolean) {
+  const name = childText(el, "name");
+  const lengthText = childText(el, "branch_length") ?? el.getAttribute("branch_length");
+  if (lengthText !== null && lengthText !== "") {
+    const length = parseFloat(lengthText);
+    node.length = Number.isFinite(length) ? length : 0;
+  }
+  const confidences = childElements(el, "confidence").map((c) => (c.textContent ?? "").trim()).filter(Boolean);
+  if (name) node.name = name;
+  if (confidences.length) {
+    // Support values of internal clades describe the branch above them, as with Newick input.
+    const supports = confidences.map(Number);
+    if (internal && supports.every(Number.isFinite)) node.__supports = supports;
+    else node.__annotations = { ...(node.__annotations ?? {}), confidence: parseAnnotationScalar(confidences[0]) };
+  }
+  const colorEl = childElements(el, "color")[0];
+  if (colorEl) {
+    const channel = (key: string) => parseFloat(childText(colorEl, key) ?? "0") || 0;
+    node.__edgeColor = rgbToHex(channel("red"), channel("green"), channel("blue"));
+  }
+  const width = parseFloat(childText(el, "width") ?? "");
+  if (Number.isFinite(width) && width > 0) node.__edgeWidth = width;
+  childElements(el, "property").forEach((prop) => {
+    const ref = prop.getAttribute("ref");
+    if (ref) applyPhyloXmlProperty(node, ref, (prop.textContent ?? "").trim());
+  });
+}
+function parsePhyloXml(text: string): ParsedTreeEntry[] {
+  const doc = parseXmlDocument(text);
+  const phylogenies = Array.from(doc.getElementsByTagNameNS("*", "phylogeny"));
+  return phylogenies.flatMap((phylogeny, index) => {
+    const rootClade = childElements(phylogeny, "clade")[0];
+    if (!rootClade) return [];
+    const rooted = phylogeny.getAttribute("rooted");
+    return [{
+      name: childText(phylogeny, "name") || `Tree ${index + 1}`,
+      tree: parsePhyloXmlClade(rootClade),
+      rooted: rooted === "true" ? true : rooted === "false" ? false : undefined,
+    }];
+  });
+}
+// Without an explicit `rooted`, a bifurcating root is written as rooted and a basal polytomy as unrooted.
+function toPhyloXml(root: TreeNode, options?: { name?: string; includeLengths?: boolean; rooted?: boolean }): string {
+  const includeLengths = options?.includeLengths !== false;
+  const rooted = options?.rooted ?? (root.children?.length === 2);
+  const lines: string[] = [];
+  const property = (indent: string, ref: string, datatype: string, value: string) =>
+    `${indent}<property ref="${escapeXml(ref)}" datatype="${datatype}" applies_to="clade">${escapeXml(value)}</property>`;
+  // Explicit stack; a null node closes the clade opened at that depth.
+  const stack: { n: TreeNode | null; depth: number }[] = [{ n: root, depth: 2 }];
+  while (stack.length) {
+    const { n, depth } = stack.pop() as (typeof stack)[number];
+    // Indentation stops growing past 32 levels; on ladder-like trees it would otherwise dominate the file size.
+    const indent = "  ".repeat(Math.min(depth, 32));
+    if (!n) {
+      lines.push(`${indent}</clade>`);
+      continue;
+    }
+    const inner = indent + "  ";
+    const isLeaf = !n.children?.length;
+    lines.push(`${indent}<clade>`);
+    const label = (n.name ?? "").trim();
+    if (label) lines.push(`${inner}<name>${escapeXml(label)}</name>`);
+    if (includeLengths && typeof n.length === "number" && Number.isFinite(n.length)) {
+      lines.push(`${inner}<branch_length>${+n.length.toFixed(6)}</branch_length>`);
+    }
+    if (!isLeaf) {
+      n.__supports?.forEach((value) => lines.push(`${inner}<confidence type="support">${value}</confidence>`));
+    }
+    if (typeof n.__edgeWidth === "number" && n.__edgeWidth > 0) lines.push(`${inner}<width>${n.__edgeWidth}</width>`);
+    const rgb = n.__edgeColor ? hexToRgb(n.__edgeColor) : null;
+    if (rgb) lines.push(`${inner}<color><red>${rgb[0]}</red><green>${rgb[1]}</green><blue>${rgb[2]}</blue></color>`);
+    collectStyleProperties(n).forEach(({ key, datatype, value }) => {
+      lines.push(property(inner, `${PHYLOWEAVER_PROPERTY_PREFIX}${key}`, datatype, value));
+    });
+    Object.entries(n.__annotations ?? {}).forEach(([key, value]) => {
+      const datatype = typeof value === "number" ? "xsd:double" : "xsd:string";
+      const text = Array.isArray(value) ? formatAnnotationValue(value) : String(value);
+      lines.push(property(inner, `${ANNOTATION_PROPERTY_PREFIX}${key}`, datatype, text));
+    });
+    stack.push({ n: null, depth });
+    const children = n.children ?? [];
+    for (let k = children.length - 1; k >= 0; k--) stack.push({ n: children[k], depth: depth + 1 });
+  }
+  const nameLine = options?.name ? [`    <name>${escapeXml(options.name)}</name>`] : [];
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<phyloxml xmlns="http://www.phyloxml.org" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.phyloxml.org http://www.phyloxml.org/1.20/phyloxml.xsd">',
+    `  <phylogeny rooted="${rooted}">`,
+    ...nameLine,
+    ...lines,
+    "  </phylogeny>",
+    "</phyloxml>",
+    ""
+  ].join("\n");
+}
+
+/** ---------- NeXML ---------- */
+const NEXML_NAMESPACE = "http://www.nexml.org/2009";
+const PHYLOWEAVER_TERMS_NAMESPACE = "https://yawak.jp/PhyloWeaver/terms#";
+const NEXML_ANNOTATION_PREFIX = "pw:";
+
+function isNeXmlText(text: string): boolean {
+  return /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<(\w+:)?nexml\b/i.test(text);
+}
+function applyNeXmlMeta(node: TreeNode, meta: Element) {
+  const property = meta.getAttribute("property");
+  const rel = meta.getAttribute("rel");
+  const key = property ?? rel;
+  if (!key) return;
+  const value = property ? (meta.getAttribute("content") ?? (meta.textContent ?? "").trim()) : (meta.getAttribute("href") ?? "");
+  if (key.startsWith(NEXML_ANNOTATION_PREFIX)) {
+    const localKey = key.slice(NEXML_ANNOTATION_PREFIX.length);
+    if (applyStyleProperty(node, localKey, value)) return;
+    if (localKey === "edge_color") {
+      node.__edgeColor = value;
+      return;
+    }
+    if (localKey === "edge_width") {
+      const width = Number(value);
+      if (Number.isFinite(width) && width > 0) node.__edgeWidth = width;
+      return;
+    }
+    node.__annotations = { ...(node.__annotations ?? {}), [localKey]: parseAnnotationValue(value) };
+    return;
   }
-  function parseSubtree(): TreeNode {
-    eatWhitespace();
+  node.__annotations = { ...(node.__annotations ?? {}), [key]: parseAnnotationValue(value) };
+}
+function parseNeXmlTree(treeEl: Element, otuLabels: Map<string, string>): TreeNode | null {
+  const nodes = new Map<string, TreeNode>();
+  const nodeOrder: string[] = [];
+  let rootId: string | null = null;
+  childElements(treeEl, "node").forEach((el) => {
+    const id = el.getAttribute("id");
+    if (!id) return;
     const node: TreeNode = {};
-    if (newick[i] === "(") {
-      i++;
-      node.children = [];
-      while (true) {
-        node.children.push(parseSubtree());
-        eatWhitespace();
-        if (newick[i] === ",") {
-          i++;
-          continue;
-        }
-        if (newick[i] === ")") {
-          i++;
-          break;
+    const otu = el.getAttribute("otu");
+    const label = el.getAttribute("label") ?? (otu ? otuLabels.get(otu) : undefined);
+    if (label) node.name = label;
+    childElements(el, "meta").forEach((meta) => applyNeXmlMeta(node, meta));
+    nodes.set(id, node);
+    nodeOrder.push(id);
+    if (el.getAttribute("root") === "true" && rootId === null) rootId = id;
+  });
+  const hasParent = new Set<string>();
+  childElements(treeEl, "edge").forEach((el) => {
+    const parent = nodes.get(el.getAttribute("source") ?? "");
+    const targetId = el.getAttribute("target") ?? "";
+    const child = nodes.get(targetId);
+    if (!parent || !child) return;
+    const length = parseFloat(el.getAttribute("length") ?? "");
+    if (Number.isFinite(length)) child.length = length;
+    childElements(el, "meta").forEach((meta) => applyNeXmlMeta(child, meta));
+    (parent.children ??= []).push(child);
+    hasParent.add(targetId);
+  });
+  nodes.forEach((node) => {
+    if (!node.children || !node.name) return;
+    const label = node.name;
+    delete node.name;
+    applyInternalLabel(node, label);
+  });
+  const rootKey = rootId ?? nodeOrder.find((id) => !hasParent.has(id));
+  return rootKey ? nodes.get(rootKey) ?? null : null;
+}
+function parseNeXml(text: string): ParsedTreeEntry[] {
+  const doc = parseXmlDocument(text);
+  const otuLabels = new Map<string, string>();
+  Array.from(doc.getElementsByTagNameNS("*", "otu")).forEach((otu) => {
+    const id = otu.getAttribute("id");
+    if (id) otuLabels.set(id, otu.getAttribute("label") ?? id);
+  });
+  const entries: ParsedTreeEntry[] = [];
+  Array.from(doc.getElementsByTagNameNS("*", "tree")).forEach((treeEl) => {
+    const tree = parseNeXmlTree(treeEl, otuLabels);
+    if (!tree) return;
+    entries.push({ name: treeEl.getAttribute("label") || treeEl.getAttribute("id") || `Tree ${entries.length + 1}`, tree });
+  });
+  return entries;
+}
+function toNeXml(root: TreeNode, options?: { name?: string; includeLengths?: boolean }): string {
+  const includeLengths = options?.includeLengths !== false;
+  const otuLines: string[] = [];
+  const nodeLines: string[] = [];
+  const edgeLines: string[] = [];
+  let nodeCounter = 0;
+  const literalMeta = (indent: string, property: string, datatype: string, value: string) =>
+    `${indent}<meta xsi:type="nex:LiteralMeta" property="${escapeXml(property)}" datatype="${datatype}" content="${escapeXml(value)}"/>`;
+  const stack: { n: TreeNode; parentId: string | null }[] = [{ n: root, parentId: null }];
+  while (stack.length) {
+    const { n, parentId } = stack.pop() as (typeof stack)[number];
+    const id = `n${++nodeCounter}`;
+    const isLeaf = !n.children?.length;
+    const label = (isLeaf ? n.name ?? "" : formatInternalLabel(n)).trim();
+    const attrs = [`id="${id}"`];
+    if (isLeaf) {
+      const otuId = `t${nodeCounter}`;
+      otuLines.push(`    <otu id="${otuId}" label="${escapeXml(label || "Unnamed")}"/>`);
+      attrs.push(`otu="${otuId}"`);
+    }
+    if (label) attrs.push(`label="${escapeXml(label)}"`);
+    if (!parentId) attrs.push('root="true"');
+    const metas = [
+      ...collectStyleProperties(n).map(({ key, datatype, value }) => literalMeta("        ", `${NEXML_ANNOTATION_PREFIX}${key}`, datatype, value)),
+      ...(n.__edgeColor ? [literalMeta("        ", `${NEXML_ANNOTATION_PREFIX}edge_color`, "xsd:string", n.__edgeColor)] : []),
+      ...(typeof n.__edgeWidth === "number" && n.__edgeWidth > 0 ? [literalMeta("        ", `${NEXML_ANNOTATION_PREFIX}edge_width`, "xsd:double", String(n.__edgeWidth))] : []),
+      // Keys from other vocabularies ("dc:title") keep their prefix inside pw:, whose namespace is the only one
+      // declared; reading strips pw: again, so they round-trip unchanged.
+      ...Object.entries(n.__annotations ?? {}).map(([key, value]) => {
+        const property = `${NEXML_ANNOTATION_PREFIX}${key}`;
+        const datatype = typeof value === "number" ? "xsd:double" : "xsd:string";
+        return literalMeta("        ", property, datatype, Array.isArray(value) ? formatAnnotationValue(value) : String(value));
+      }),
+    ];
+    if (metas.length) {
+      nodeLines.push(`      <node ${attrs.join(" ")}>`, ...metas, "      </node>");
+    } else {
+      nodeLines.push(`      <node ${attrs.join(" ")}/>`);
+    }
+    if (parentId) {
+      const length = includeLengths && typeof n.length === "number" && Number.isFinite(n.length) ? ` length="${+n.length.toFixed(6)}"` : "";
+      edgeLines.push(`      <edge id="e${nodeCounter}" source="${parentId}" target="${id}"${length}/>`);
+    }
+    const children = n.children ?? [];
+    for (let k = children.length - 1; k >= 0; k--) stack.push({ n: children[k], parentId: id });
+  }
+  const label = options?.name ? ` label="${escapeXml(options.name)}"` : "";
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<nex:nexml xmlns:nex="${NEXML_NAMESPACE}" xmlns="${NEXML_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:xsd="http://www.w3.org/2001/XMLSchema#" xmlns:pw="${PHYLOWEAVER_TERMS_NAMESPACE}" version="0.9" generator="PhyloWeaver">`,
+    '  <otus id="otus1">',
+    ...otuLines,
+    "  </otus>",
+    '  <trees id="trees1" otus="otus1">',
+    `    <tree id="tree1" xsi:type="nex:FloatTree"${label}>`,
+    ...nodeLines,
+    ...edgeLines,
+    "    </tree>",
+    "  </trees>",
+    "</nex:nexml>",
+    ""
+  ].join("\n");
+}
+// Reads PhyloXML or NeXML documents; returns null when the text is not one of them.
+function parseXmlTreeFile(text: string): ParsedTreeEntry[] | null {
+  if (isPhyloXmlText(text)) return parsePhyloXml(text);
+  if (isNeXmlText(text)) return parseNeXml(text);
+  return null;
+}
+
+/** ---------- Compressed files (gzip / zip) ---------- */
+type TreeFileEntry = { name: string; text: string };
+
+const TREE_FILE_EXTENSIONS = [".nwk", ".newick", ".tree", ".tre", ".treefile", ".txt", ".nex", ".nexus", ".trees", ".xml", ".phyloxml", ".nexml", ".json"];
+
+function isGzipBytes(bytes: Uint8Array): boolean {
+  return bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+function isZipBytes(bytes: Uint8Array): boolean {
+  return bytes.length > 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+async function inflateBytes(bytes: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+  if (typeof DecompressionStream === "undefined") throw new Error("This browser cannot decompress files");
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+// Reads the central directory of a zip archive; only stored and deflated entries are supported.
+async function readZipEntries(bytes: Uint8Array): Promise<TreeFileEntry[]> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Zip archive is truncated (no central directory)");
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff) throw new Error("ZIP64 archives are not supported");
+  const decoder = new TextDecoder();
+  const entries: TreeFileEntry[] = [];
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error("Zip central directory is damaged");
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith("/") || name.startsWith("__MACOSX/")) continue;
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method !== 0 && method !== 8) throw new Error(`Unsupported compression method ${method} for ${name}`);
+    const raw = method === 8 ? await inflateBytes(data, "deflate-raw") : data;
+    entries.push({ name, text: decoder.decode(raw) });
+  }
+  return entries;
+}
+// Returns the text of a plain, gzip or zip file. Archives list only tree files when they hold any.
+async function readTreeFileEntries(file: File): Promise<TreeFileEntry[]> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (isGzipBytes(bytes)) {
+    const name = file.name.replace(/\.gz$/i, "");
+    return [{ name, text: new TextDecoder().decode(await inflateBytes(bytes, "gzip")) }];
+  }
+  if (isZipBytes(bytes)) {
+    const entries = await readZipEntries(bytes);
+    if (!entries.length) throw new Error("Zip archive is empty");
+    const trees = entries.filter((entry) => TREE_FILE_EXTENSIONS.some((ext) => entry.name.toLowerCase().endsWith(ext)));
+    return trees.length ? trees : entries;
+  }
+  return [{ name: file.name, text: new TextDecoder().decode(bytes) }];
+}
+
+/** ---------- Background parsing and layout ---------- */
+// Text above this size is parsed and checked in a Web Worker; smaller trees are handled inline.
+const BACKGROUND_PARSE_THRESHOLD = 200_000;
+// Trees with more nodes than this are laid out in the Web Worker; smaller ones are laid out while rendering.
+const BACKGROUND_LAYOUT_THRESHOLD = 50_000;
+type TreeWorkerJob = {
+  request: TreeWorkerRequest;
+  onProgress?: (fraction: number) => void;
+  settle: (response: TreeWorkerResponse) => void;
+};
+let treeWorker: Worker | null = null;
+let treeWorkerUnavailable = false;
+let treeWorkerRequestId = 0;
+const treeWorkerJobs = new Map<number, TreeWorkerJob>();
+
+function handleTreeWorkerResponse(response: TreeWorkerResponse){
+  const job = treeWorkerJobs.get(response.id);
+  if(!job) return;
+  if(response.type === "progress"){
+    job.onProgress?.(response.fraction);
+    return;
+  }
+  treeWorkerJobs.delete(response.id);
+  job.settle(response);
+}
+function getTreeWorker(): Worker | null {
+  if(treeWorker || treeWorkerUnavailable) return treeWorker;
+  try{
+    treeWorker = new Worker(new URL("./treeWorker.ts", import.meta.url), { type: "module" });
+  }catch{
+    treeWorkerUnavailable = true;
+    return null;
+  }
+  treeWorker.onmessage = (event: MessageEvent<TreeWorkerResponse>)=>handleTreeWorkerResponse(event.data);
+  treeWorker.onerror = (event)=>{
+    // The worker script failed to load or crashed: finish the pending jobs on the main thread instead.
+    event.preventDefault();
+    treeWorker?.terminate();
+    treeWorker = null;
+    treeWorkerUnavailable = true;
+    const pending = Array.from(treeWorkerJobs.values());
+    treeWorkerJobs.clear();
+    pending.forEach(job=>handleTreeWorkerRequest(job.request, response=>{
+      if(response.type === "progress") job.onProgress?.(response.fraction);
+      else job.settle(response);
+    }));
+  };
+  return treeWorker;
+}
+function runTreeWorkerRequest(request: TreeWorkerRequest, background: boolean, onProgress?: (fraction: number) => void): Promise<TreeWorkerResponse> {
+  return new Promise(resolve=>{
+    const worker = background ? getTreeWorker() : null;
+    if(!worker){
+      handleTreeWorkerRequest(request, response=>{ if(response.type !== "progress") resolve(response); });
+      return;
+    }
+    treeWorkerJobs.set(request.id, { request, onProgress, settle: resolve });
+    worker.postMessage(request);
+  });
+}
+async function parseTreeEntries(entries: NexusTree[], onProgress?: (fraction: number) => void): Promise<ParsedTreeEntry[]> {
+  const size = entries.reduce((total, entry)=>total + entry.newick.length, 0);
+  const response = await runTreeWorkerRequest({ id: ++treeWorkerRequestId, type: "parse", entries }, size > BACKGROUND_PARSE_THRESHOLD, onProgress);
+  if(response.type === "error") throw new Error(response.message);
+  if(response.type !== "parsed") throw new Error("Unexpected parser response");
+  return response.trees.map((entry, i)=>({ name: entry.name, tree: inflateTree(entry.tree), rooted: entries[i].rooted }));
+}
+async function computeTreeLayoutInBackground(input: TreeLayoutInput, layout: LayoutMode, yGap: number, onProgress?: (fraction: number) => void): Promise<TreeLayoutPositions> {
+  const response = await runTreeWorkerRequest({ id: ++treeWorkerRequestId, type: "layout", input, phylogram: layout === "phylogram", yGap }, true, onProgress);
+  if(response.type === "error") throw new Error(response.message);
+  if(response.type !== "laidOut") throw new Error("Unexpected layout response");
+  return response.positions;
+}
+async function diagnoseNewickTextInBackground(text: string): Promise<NewickDiagnostic[]> {
+  const response = await runTreeWorkerRequest({ id: ++treeWorkerRequestId, type: "diagnose", text }, text.length > BACKGROUND_PARSE_THRESHOLD);
+  if(response.type === "error") throw new Error(response.message);
+  return response.type === "diagnosed" ? response.diagnostics : [];
+}
+
+/** ---------- Metadata (CSV / TSV) ---------- */
+type MetadataTable = { columns: string[]; rows: string[][] };
+type MetadataBindReport = {
+  keyColumn: string;
+  columns: string[];
+  matchedTips: number;
+  totalTips: number;
+  unmatchedRows: string[];
+  unmatchedTips: string[];
+};
+
+const METADATA_KEY_COLUMN_PATTERN = /^(name|label|taxon|taxa|tip|tip[ _]?label|sample|id|strain)$/i;
+
+// Reads CSV or TSV text (picked from the header line) with RFC 4180 style "quoted" cells.
+function parseDelimitedText(text: string): MetadataTable {
+  const body = text.replace(/^\uFEFF/, "");
+  const headerLine = body.split(/\r?\n/, 1)[0] ?? "";
+  const count = (ch: string) => headerLine.split(ch).length - 1;
+  const delimiter = count("\t") > 0 && count("\t") >= count(",") ? "\t" : count(",") > 0 ? "," : count(";") > 0 ? ";" : "\t";
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (quoted) {
+      if (ch === '"' && body[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && !cell.trim()) {
+      quoted = true;
+      cell = "";
+    } else if (ch === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && body[i + 1] === "\n") i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+  const nonEmpty = rows.filter((r) => r.some((value) => value !== ""));
+  if (!nonEmpty.length) throw new Error("The metadata file is empty");
+  const [header, ...data] = nonEmpty;
+  const columns = header.map((name, i) => name || `column${i + 1}`);
+  return { columns, rows: data };
+}
+function normalizeTipKey(name: string): string {
+  return name.replace(/_/g, " ").replace(/\s+/g, " ").trim().toLowerCase();
+}
+// Stores every non-key column of the matching row on each leaf; names are matched exactly, then ignoring case and blanks.
+// Only the matched leaves and their ancestors are copied.
+function bindMetadata(root: TreeNode, table: MetadataTable): { tree: TreeNode; report: MetadataBindReport } {
+  const keyIndex = Math.max(0, table.columns.findIndex((column) => METADATA_KEY_COLUMN_PATTERN.test(column.trim())));
+  const leaves = collectTips(root).filter((leaf) => !leaf.__isCollapsedPlaceholder);
+  const exact = new Map<string, TreeNode[]>();
+  const loose = new Map<string, TreeNode[]>();
+  const add = (map: Map<string, TreeNode[]>, key: string, leaf: TreeNode) => {
+    const list = map.get(key);
+    if (list) list.push(leaf);
+    else map.set(key, [leaf]);
+  };
+  leaves.forEach((leaf) => {
+    const name = leaf.name ?? "";
+    if (!name.trim()) return;
+    add(exact, name, leaf);
+    add(loose, normalizeTipKey(name), leaf);
+  });
+  const matched = new Set<TreeNode>();
+  const updates = new Map<number, Record<string, string>>();
+  const unmatchedRows: string[] = [];
+  table.rows.forEach((row) => {
+    const key = row[keyIndex] ?? "";
+    if (!key) return;
+    const targets = exact.get(key) ?? loose.get(normalizeTipKey(key));
+    if (!targets?.length) {
+      unmatchedRows.push(key);
+      return;
+    }
+    const values: Record<string, string> = {};
+    table.columns.forEach((column, i) => {
+      if (i !== keyIndex && row[i] !== undefined && row[i] !== "") values[column] = row[i];
+    });
+    targets.forEach((leaf) => {
+      matched.add(leaf);
+      if (leaf.__id !== undefined) updates.set(leaf.__id, { ...(updates.get(leaf.__id) ?? {}), ...values });
+    });
+  });
+  const tree = editTree(root, updates.keys(), (writable) => {
+    updates.forEach((values, id) => {
+      const leaf = writable.get(id) as TreeNode;
+      leaf.__metadata = { ...(leaf.__metadata ?? {}), ...values };
+    });
+  });
+  const report: MetadataBindReport = {
+    keyColumn: table.columns[keyIndex],
+    columns: table.columns.filter((_, i) => i !== keyIndex),
+    matchedTips: matched.size,
+    totalTips: leaves.length,
+    unmatchedRows,
+    unmatchedTips: leaves.filter((leaf) => !matched.has(leaf)).map((leaf) => leaf.name || "Unnamed"),
+  };
+  return { tree, report };
+}
+function collectMetadataColumns(root: TreeNode): string[] {
+  const columns = new Set<string>();
+  forEachNode(root, (n) => {
+    Object.keys(n.__metadata ?? {}).forEach((key) => columns.add(key));
+  });
+  return Array.from(columns);
+}
+function formatMetadataTooltip(node: TreeNode): string | null {
+  const entries = Object.entries(node.__metadata ?? {});
+  if (!entries.length) return null;
+  return [node.name || "Unnamed", ...entries.map(([key, value]) => `${key}: ${value}`)].join("\n");
+}
+// Fills "{name}" and "{column}" placeholders; falls back to the plain name when the template is empty or yields nothing.
+function formatLeafLabel(node: TreeNode, template: string): string {
+  const name = (node.name ?? "").trim() || "Unnamed";
+  if (!template.trim()) return name;
+  const label = template
+    .replace(/\{([^{}]+)\}/g, (_, key: string) => {
+      const trimmed = key.trim();
+      if (trimmed === "name") return node.name ?? "";
+      return node.__metadata?.[trimmed] ?? "";
+    })
+    .trim();
+  return label || name;
+}
+
+/** ---------- iTOL annotations ---------- */
+type ItolTemplate = "TREE_COLORS" | "LABELS" | "DATASET_COLORSTRIP" | "DATASET_SYMBOL";
+type ItolFile = { template: ItolTemplate; header: Record<string, string[]>; rows: string[][] };
+// `ranges` counts TREE_COLORS range lines, which are drawn as the subtree's branch colors instead of a shaded box.
+type ItolImportReport = { template: ItolTemplate; applied: number; unmatched: string[]; ranges: number };
+type ItolNameIndex = { exact: Map<string, TreeNode>; loose: Map<string, TreeNode> };
+
+const ITOL_TEMPLATES: ItolTemplate[] = ["TREE_COLORS", "LABELS", "DATASET_COLORSTRIP", "DATASET_SYMBOL"];
+const ITOL_SEPARATORS: Record<string, string> = { TAB: "\t", COMMA: ",", SPACE: " " };
+
+function isItolText(text: string): boolean {
+  const first = text.replace(/^\uFEFF/, "").split(/\r?\n/).find((line) => line.trim() && !line.trim().startsWith("#"));
+  return Boolean(first && ITOL_TEMPLATES.includes(first.trim().split(/[\s,]/)[0] as ItolTemplate));
+}
+function parseItolFile(text: string): ItolFile {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/).filter((line) => line.trim() && !line.trim().startsWith("#"));
+  const template = lines[0]?.trim().split(/[\s,]/)[0] as ItolTemplate;
+  if (!ITOL_TEMPLATES.includes(template)) throw new Error("Unsupported iTOL template: " + (lines[0] ?? "").trim());
+  const separatorLine = lines.find((line) => /^SEPARATOR\b/.test(line.trim()));
+  const separatorName = separatorLine?.trim().split(/\s+/)[1]?.toUpperCase() ?? "";
+  const separator = ITOL_SEPARATORS[separatorName];
+  if (!separator) throw new Error("Missing or unknown SEPARATOR line (use TAB, COMMA or SPACE)");
+  const split = (line: string) => (separator === " " ? line.trim().split(/\s+/) : line.split(separator).map((cell) => cell.trim()));
+  const header: Record<string, string[]> = {};
+  const rows: string[][] = [];
+  let inData = false;
+  lines.slice(1).forEach((line) => {
+    if (/^SEPARATOR\b/.test(line.trim())) return;
+    if (line.trim() === "DATA") {
+      inData = true;
+      return;
+    }
+    const cells = split(line);
+    if (inData) rows.push(cells);
+    else header[cells[0]] = cells.slice(1);
+  });
+  return { template, header, rows };
+}
+// Labels to nodes, exact and ignoring case and blanks; the first node in tree order wins.
+function buildItolNameIndex(parents: Map<TreeNode, TreeNode | null>): ItolNameIndex {
+  const index: ItolNameIndex = { exact: new Map(), loose: new Map() };
+  parents.forEach((_, node) => {
+    if (!node.name) return;
+    if (!index.exact.has(node.name)) index.exact.set(node.name, node);
+    const key = normalizeTipKey(node.name);
+    if (!index.loose.has(key)) index.loose.set(key, node);
+  });
+  return index;
+}
+// Finds a node by label, or the common ancestor of "A|B" style ids as used by iTOL for clades.
+function resolveItolNode(root: TreeNode, id: string, parents: Map<TreeNode, TreeNode | null>, names: ItolNameIndex): TreeNode | null {
+  const findNamed = (name: string): TreeNode | null => names.exact.get(name) ?? names.loose.get(normalizeTipKey(name)) ?? null;
+  const ids = id.split("|").map((part) => part.trim()).filter(Boolean);
+  if (!ids.length) return null;
+  const nodes = ids.map(findNamed);
+  if (nodes.some((node) => !node)) return null;
+  if (nodes.length === 1) return nodes[0];
+  const ancestors = (node: TreeNode) => {
+    const list: TreeNode[] = [];
+    for (let curr: TreeNode | null = node; curr; curr = parents.get(curr) ?? null) list.push(curr);
+    return list;
+  };
+  let common = ancestors(nodes[0] as TreeNode);
+  nodes.slice(1).forEach((node) => {
+    const set = new Set(ancestors(node as TreeNode));
+    common = common.filter((candidate) => set.has(candidate));
+  });
+  return common[0] ?? root;
+}
+// Applies an iTOL dataset using the existing styling fields, copying only the matched nodes (with their clades
+// for range and clade lines) and their ancestors. TREE_COLORS size factors scale `edgeWidth`, the current
+// default branch width, as iTOL scales its own.
+function applyItolAnnotations(root: TreeNode, text: string, edgeWidth: number): { tree: TreeNode; report: ItolImportReport } {
+  const file = parseItolFile(text);
+  const parents = new Map<TreeNode, TreeNode | null>();
+  forEachNode(root, (node, parent) => {
+    parents.set(node, parent);
+  });
+  // Names are looked up as they were before this file, so LABELS lines cannot match each other's new names.
+  const names = buildItolNameIndex(parents);
+  const report: ItolImportReport = { template: file.template, applied: 0, unmatched: [], ranges: 0 };
+  const rowsFor = (types?: string[]) =>
+    file.template === "TREE_COLORS" && types ? file.rows.filter((row) => types.includes((row[1] ?? "").toLowerCase())) : file.rows;
+  // Lines are matched against the original tree first and applied in order to the copies afterwards.
+  const edits: { id: number; row: string[]; handler: (node: TreeNode, row: string[]) => void }[] = [];
+  const ids: number[] = [];
+  const apply = (rows: string[][], handler: (node: TreeNode, row: string[]) => void, wholeClade = false) => {
+    rows.forEach((row) => {
+      const node = resolveItolNode(root, row[0] ?? "", parents, names);
+      if (!node || node.__id === undefined) {
+        report.unmatched.push(row[0] ?? "");
+        return;
+      }
+      if (wholeClade) {
+        forEachNode(node, (n) => {
+          if (n.__id !== undefined) ids.push(n.__id);
+        });
+      } else {
+        ids.push(node.__id);
+      }
+      edits.push({ id: node.__id, row, handler });
+      report.applied++;
+    });
+  };
+  const isColor = (value: string | undefined): value is string => Boolean(value && /^(#[0-9a-f]{3,8}|rgba?\(.+\))$/i.test(value));
+  const toHex = (value: string) => d3.color(value)?.formatHex() ?? value;
+  switch (file.template) {
+    case "TREE_COLORS":
+      // Ranges first so explicit clade and branch colors win, as in iTOL.
+      apply(rowsFor(["range"]), (node, row) => {
+        if (!isColor(row[2])) return;
+        forEachNode(node, (n) => { n.__edgeColor = toHex(row[2]); });
+        report.ranges++;
+      }, true);
+      apply(rowsFor(["clade"]), (node, row) => {
+        if (!isColor(row[2])) return;
+        const factor = parseFloat(row[4] ?? "");
+        forEachNode(node, (n) => {
+          n.__edgeColor = toHex(row[2]);
+          if (Number.isFinite(factor) && factor > 0) n.__edgeWidth = factor * edgeWidth;
+        });
+      }, true);
+      apply(rowsFor(["branch"]), (node, row) => {
+        if (!isColor(row[2])) return;
+        node.__edgeColor = toHex(row[2]);
+        const factor = parseFloat(row[4] ?? "");
+        if (Number.isFinite(factor) && factor > 0) node.__edgeWidth = factor * edgeWidth;
+      });
+      apply(rowsFor(["label"]), (node, row) => {
+        if (isColor(row[2])) node.__color = toHex(row[2]);
+        if (/bold/i.test(row[3] ?? "")) node.__labelBold = true;
+      });
+      break;
+    case "LABELS":
+      apply(file.rows, (node, row) => {
+        if (row[1] !== undefined && row[1] !== "") node.name = row[1];
+      });
+      break;
+    case "DATASET_COLORSTRIP": {
+      const column = file.header.DATASET_LABEL?.[0] || "colorstrip";
+      apply(file.rows, (node, row) => {
+        if (isColor(row[1])) node.__color = toHex(row[1]);
+        if (row[2]) node.__metadata = { ...(node.__metadata ?? {}), [column]: row[2] };
+      });
+      break;
+    }
+    case "DATASET_SYMBOL":
+      apply(file.rows, (node, row) => {
+        const size = parseFloat(row[2] ?? "");
+        if (Number.isFinite(size) && size > 0) node.__nodeSize = size;
+        if (isColor(row[3])) node.__color = toHex(row[3]);
+      });
+      break;
+  }
+  const tree = editTree(root, ids, (writable) => {
+    edits.forEach(({ id, row, handler }) => handler(writable.get(id) as TreeNode, row));
+  });
+  return { tree, report };
+}
+
+/** ---------- Attribute styling ---------- */
+type StyleChannel = "labelColor" | "edgeColor" | "tipColor" | "tipShape" | "labelBold";
+type TipShape = "circle" | "square" | "triangle" | "diamond" | "cross" | "star";
+// Categorical mappings use the automatic palette unless a category has an override; continuous ones use a gradient.
+type StyleMapping = { column: string; continuous: boolean; overrides: Record<string, string> };
+type StyleMappings = Partial<Record<StyleChannel, StyleMapping>>;
+type MappedNodeStyle = { labelColor?: string; edgeColor?: string; tipColor?: string; tipShape?: TipShape; labelBold?: boolean };
+
+const STYLE_CHANNELS: StyleChannel[] = ["labelColor", "edgeColor", "tipColor", "tipShape", "labelBold"];
+const TIP_SHAPES: TipShape[] = ["circle", "square", "triangle", "diamond", "cross", "star"];
+const TIP_SHAPE_SYMBOLS: Record<TipShape, d3.SymbolType> = {
+  circle: d3.symbolCircle,
+  square: d3.symbolSquare,
+  triangle: d3.symbolTriangle,
+  diamond: d3.symbolDiamond,
+  cross: d3.symbolCross,
+  star: d3.symbolStar,
+};
+const CATEGORY_PALETTE = [...d3.schemeTableau10, ...d3.schemeSet2, ...d3.schemeDark2];
+const MAX_STYLE_CATEGORIES = 60;
+
+function isColorChannel(channel: StyleChannel): boolean {
+  return channel === "labelColor" || channel === "edgeColor" || channel === "tipColor";
+}
+function collectMetadataValues(root: TreeNode, column: string): string[] {
+  const values = new Set<string>();
+  collectTips(root).forEach((leaf) => {
+    const value = leaf.__metadata?.[column];
+    if (value !== undefined && value !== "") values.add(value);
+  });
+  const list = Array.from(values);
+  return isNumericValues(list)
+    ? list.sort((a, b) => Number(a) - Number(b))
+    : list.sort((a, b) => a.localeCompare(b));
+}
+function isNumericValues(values: string[]): boolean {
+  return values.length > 0 && values.every((value) => value.trim() !== "" && Number.isFinite(Number(value)));
+}
+// Builds the value -> style lookup for one mapping; categories beyond the cap fall back to the default style.
+function buildStyleScale(channel: StyleChannel, mapping: StyleMapping, values: string[]): (value: string) => string | undefined {
+  if (mapping.continuous && isColorChannel(channel) && isNumericValues(values)) {
+    const numbers = values.map(Number);
+    const min = d3.min(numbers) ?? 0;
+    const max = d3.max(numbers) ?? 0;
+    const colorFor = d3.scaleSequential(d3.interpolateViridis).domain(min === max ? [min - 1, max + 1] : [min, max]);
+    return (value) => (Number.isFinite(Number(value)) && value.trim() !== "" ? d3.color(colorFor(Number(value)))?.formatHex() : undefined);
+  }
+  const lookup = new Map<string, string>();
+  values.slice(0, MAX_STYLE_CATEGORIES).forEach((value, index) => {
+    const fallback = channel === "tipShape"
+      ? TIP_SHAPES[index % TIP_SHAPES.length]
+      : channel === "labelBold"
+        ? "normal"
+        : CATEGORY_PALETTE[index % CATEGORY_PALETTE.length];
+    lookup.set(value, mapping.overrides[value] ?? fallback);
+  });
+  return (value) => lookup.get(value);
+}
+// Resolves every active mapping to per-node styles; an internal edge takes a category only when all tips below share it.
+function computeMappedStyles(root: TreeNode, mappings: StyleMappings): Map<number, MappedNodeStyle> {
+  const styles = new Map<number, MappedNodeStyle>();
+  const assign = (node: TreeNode, patch: MappedNodeStyle) => {
+    if (node.__id === undefined) return;
+    styles.set(node.__id, { ...(styles.get(node.__id) ?? {}), ...patch });
+  };
+  STYLE_CHANNELS.forEach((channel) => {
+    const mapping = mappings[channel];
+    if (!mapping?.column) return;
+    const scale = buildStyleScale(channel, mapping, collectMetadataValues(root, mapping.column));
+    // Children before parents: each clade learns whether all of its tips share one value.
+    const sharedValues = new Map<TreeNode, string | null>();
+    listNodes(root).reverse().forEach((node) => {
+      if (!node.children?.length) {
+        const value = node.__metadata?.[mapping.column];
+        const style = value !== undefined && value !== "" ? scale(value) : undefined;
+        if (style !== undefined) {
+          if (channel === "labelBold") assign(node, { labelBold: style === "bold" });
+          else if (channel === "tipShape") assign(node, { tipShape: style as TipShape });
+          else assign(node, { [channel]: style });
         }
-        throw new Error("Newick parse error @ " + i);
+        sharedValues.set(node, value ?? null);
+        return;
       }
+      const childValues = node.children.map((child) => sharedValues.get(child) ?? null);
+      const shared = childValues.every((value) => value !== null && value === childValues[0]) ? childValues[0] : null;
+      if (channel === "edgeColor" && shared !== null) {
+        const color = scale(shared);
+        if (color) assign(node, { edgeColor: color });
+      }
+      sharedValues.set(node, shared);
+    });
+  });
+  return styles;
+}
+function tipShapePath(shape: TipShape, radius: number): string {
+  return d3.symbol(TIP_SHAPE_SYMBOLS[shape], Math.PI * radius * radius)() ?? "";
+}
+function sanitizeStyleMappings(raw: unknown): StyleMappings {
+  const mappings: StyleMappings = {};
+  if (!isRecord(raw)) return mappings;
+  STYLE_CHANNELS.forEach((channel) => {
+    const entry = raw[channel];
+    if (!isRecord(entry) || typeof entry.column !== "string" || !entry.column) return;
+    const overrides: Record<string, string> = {};
+    if (isRecord(entry.overrides)) {
+      Object.entries(entry.overrides).forEach(([key, value]) => {
+        if (typeof value === "string") overrides[key] = value;
+      });
     }
-    eatWhitespace();
-    let name = "";
-    while (i < newick.length && ![":", ",", ")", ";"].includes(newick[i])) name += newick[i++];
-    name = name.trim();
-    if (name) node.name = name;
-    if (newick[i] === ":") {
-      i++;
-      let len = "";
-      while (i < newick.length && ![",", ")", ";"].includes(newick[i])) len += newick[i++];
-      node.length = parseFloat(len);
-      if (Number.isNaN(node.length)) node.length = 0;
+    mappings[channel] = { column: entry.column, continuous: entry.continuous === true, overrides };
+  });
+  return mappings;
+}
+
+/** ---------- Legend ---------- */
+type LegendItem = { key: string; label: string; color?: string; shape?: TipShape; bold?: boolean };
+type LegendSection = { id: string; title: string; items: LegendItem[]; gradient?: { colors: string[]; min: string; max: string } };
+// Titles, labels and order are stored as overrides keyed by section id so they survive data changes.
+type LegendConfig = {
+  visible: boolean;
+  position: { x: number; y: number } | null;
+  fontSize: number;
+  titles: Record<string, string>;
+  labels: Record<string, Record<string, string>>;
+  order: Record<string, string[]>;
+  hidden: string[];
+};
+
+const MANUAL_COLOR_SECTION = "colors";
+// Hand-applied colors stay out of the legend until the user turns that section on.
+const DEFAULT_LEGEND_CONFIG: LegendConfig = {
+  visible: true,
+  position: null,
+  fontSize: 12,
+  titles: {},
+  labels: {},
+  order: {},
+  hidden: [MANUAL_COLOR_SECTION],
+};
+
+function orderLegendItems(items: LegendItem[], order: string[] | undefined): LegendItem[] {
+  if (!order?.length) return items;
+  const rank = new Map(order.map((key, index) => [key, index]));
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => (rank.get(a.item.key) ?? order.length + a.index) - (rank.get(b.item.key) ?? order.length + b.index))
+    .map(({ item }) => item);
+}
+// Lists the categories behind each attribute mapping plus the colors applied by hand, with user edits applied.
+function buildLegendSections(root: TreeNode, mappings: StyleMappings, config: LegendConfig): LegendSection[] {
+  const sections: LegendSection[] = [];
+  STYLE_CHANNELS.forEach((channel) => {
+    const mapping = mappings[channel];
+    if (!mapping?.column) return;
+    const values = collectMetadataValues(root, mapping.column);
+    if (!values.length) return;
+    const scale = buildStyleScale(channel, mapping, values);
+    const title = config.titles[channel] ?? mapping.column;
+    if (mapping.continuous && isColorChannel(channel) && isNumericValues(values)) {
+      const colors = [0, 0.25, 0.5, 0.75, 1].map((t) => d3.color(d3.interpolateViridis(t))?.formatHex() ?? "#000000");
+      sections.push({ id: channel, title, items: [], gradient: { colors, min: values[0], max: values[values.length - 1] } });
+      return;
     }
-    return node;
+    const items = values.slice(0, MAX_STYLE_CATEGORIES).map((value): LegendItem => {
+      const style = scale(value);
+      const label = config.labels[channel]?.[value] ?? value;
+      if (channel === "tipShape") return { key: value, label, shape: style as TipShape };
+      if (channel === "labelBold") return { key: value, label, bold: style === "bold" };
+      return { key: value, label, color: style };
+    });
+    sections.push({ id: channel, title, items: orderLegendItems(items, config.order[channel]) });
+  });
+  const manualColors = new Set<string>();
+  forEachNode(root, (n) => {
+    if (n.__color) manualColors.add(n.__color.toLowerCase());
+    if (n.__edgeColor) manualColors.add(n.__edgeColor.toLowerCase());
+  });
+  if (manualColors.size) {
+    const presets = COLOR_PRESETS.map((color) => color.toLowerCase());
+    const items = Array.from(manualColors)
+      .sort((a, b) => (presets.indexOf(a) + 1 || presets.length + 1) - (presets.indexOf(b) + 1 || presets.length + 1))
+      .map((color) => ({ key: color, label: config.labels[MANUAL_COLOR_SECTION]?.[color] ?? color, color }));
+    sections.push({
+      id: MANUAL_COLOR_SECTION,
+      title: config.titles[MANUAL_COLOR_SECTION] ?? "Colors",
+      items: orderLegendItems(items, config.order[MANUAL_COLOR_SECTION]),
+    });
   }
-  const tree = parseSubtree();
-  eatWhitespace();
-  if (newick[i] === ";") i++;
-  return tree;
+  return sections;
 }
-function toNewick(node: TreeNode, options?: { includeLengths?: boolean }): string {
-  const includeLengths = options?.includeLengths !== false;
-  function rec(n: TreeNode): string {
-    const name = n.name ? n.name.replace(/[\s\t\n\r]/g, "_") : "";
-    const len = includeLengths && typeof n.length === "number" ? `:${+n.length.toFixed(6)}` : "";
-    if (n.children?.length) return `(${n.children.map(rec).join(",")})${name}${len}`;
-    return `${name || "Unnamed"}${len}`;
+function sanitizeLegendConfig(raw: unknown): LegendConfig {
+  if (!isRecord(raw)) return DEFAULT_LEGEND_CONFIG;
+  const stringRecord = (value: unknown): Record<string, string> =>
+    isRecord(value) ? Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === "string")) : {};
+  const position = isRecord(raw.position) && typeof raw.position.x === "number" && typeof raw.position.y === "number"
+    ? { x: raw.position.x, y: raw.position.y }
+    : null;
+  const labels: Record<string, Record<string, string>> = {};
+  if (isRecord(raw.labels)) Object.entries(raw.labels).forEach(([key, value]) => { labels[key] = stringRecord(value); });
+  const order: Record<string, string[]> = {};
+  if (isRecord(raw.order)) {
+    Object.entries(raw.order).forEach(([key, value]) => {
+      if (Array.isArray(value)) order[key] = value.filter((item): item is string => typeof item === "string");
+    });
   }
-  return rec(node) + ";";
+  return {
+    visible: raw.visible !== false,
+    position,
+    fontSize: typeof raw.fontSize === "number" && raw.fontSize > 0 ? raw.fontSize : DEFAULT_LEGEND_CONFIG.fontSize,
+    titles: stringRecord(raw.titles),
+    labels,
+    order,
+    hidden: Array.isArray(raw.hidden) ? raw.hidden.filter((item): item is string => typeof item === "string") : DEFAULT_LEGEND_CONFIG.hidden,
+  };
+}
+
+/** ---------- Project files ---------- */
+const PROJECT_FORMAT = "phyloweaver-project";
+const PROJECT_VERSION = 1;
+const PROJECT_FILE_EXTENSION = ".phyloweaver.json";
+
+type ProjectSettings = {
+  layout: LayoutMode;
+  edgeWidth: number;
+  leafLabelSize: number;
+  nodeLabelSize: number;
+  branchLabelSize: number;
+  branchLengthPrecision: number;
+  supportLabelSize: number;
+  branchLenOffsetX: number;
+  branchLenOffsetY: number;
+  bootstrapOffsetX: number;
+  bootstrapOffsetY: number;
+  nodeLabelOffsetX: number;
+  nodeLabelOffsetY: number;
+  leafLabelOffsetX: number;
+  leafLabelOffsetY: number;
+  yGap: number;
+  xScaleWidth: number;
+  italic: boolean;
+  showNodeLabels: boolean;
+  showBranchLen: boolean;
+  showBootstrap: boolean;
+  supportComponent: number;
+  supportPrecision: number;
+  supportScale: SupportScale;
+  supportThreshold: number;
+  showNodeDots: boolean;
+  levelOfDetail: boolean;
+  leafLabelTemplate: string;
+  leafNodeDotSize: number;
+  internalNodeDotSize: number;
+  scaleBarLabelSize: number;
+  scaleBarLabelPosition: ScaleBarLabelPosition;
+  exportScaleBarCorner: ScaleBarCorner;
+  exportSizeMode: ExportSizeMode;
+  exportWidth: string;
+  exportHeight: string;
+  exportKeepAspect: boolean;
+  pngScale: number;
+};
+
+// Trees are saved as rows of one node table, each row listing its children by row number, because nested JSON
+// overflows the stack when deep trees are written or read. Children always come before their parent. Undo states
+// share their unchanged subtrees, and a shared subtree is written once, so history costs only the edited nodes.
+type ProjectNodeRecord = Omit<TreeNode, "children"> & { children?: number[] };
+// Saved undo history stops at the step that takes the node table past this many rows; the steps farthest
+// from the current one are dropped.
+const PROJECT_HISTORY_ROW_LIMIT = 500000;
+
+type ProjectFile = {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  generator: string;
+  savedAt: string;
+  tree: TreeNode;
+  history: { stack: TreeNode[]; index: number };
+  collection: { entries: TreeCollectionEntry[]; activeIndex: number };
+  settings: Partial<ProjectSettings>;
+  styleMappings: StyleMappings;
+  legend: LegendConfig;
+  newickExport: NewickExportOptions;
+};
+
+type ProjectSettingKind = "number" | "boolean" | "string" | readonly string[];
+const PROJECT_SETTING_KINDS: Record<keyof ProjectSettings, ProjectSettingKind> = {
+  layout: ["phylogram", "cladogram"],
+  edgeWidth: "number",
+  leafLabelSize: "number",
+  nodeLabelSize: "number",
+  branchLabelSize: "number",
+  branchLengthPrecision: "number",
+  supportLabelSize: "number",
+  branchLenOffsetX: "number",
+  branchLenOffsetY: "number",
+  bootstrapOffsetX: "number",
+  bootstrapOffsetY: "number",
+  nodeLabelOffsetX: "number",
+  nodeLabelOffsetY: "number",
+  leafLabelOffsetX: "number",
+  leafLabelOffsetY: "number",
+  yGap: "number",
+  xScaleWidth: "number",
+  italic: "boolean",
+  showNodeLabels: "boolean",
+  showBranchLen: "boolean",
+  showBootstrap: "boolean",
+  supportComponent: "number",
+  supportPrecision: "number",
+  supportScale: ["original", "fraction", "percent"],
+  supportThreshold: "number",
+  showNodeDots: "boolean",
+  levelOfDetail: "boolean",
+  leafLabelTemplate: "string",
+  leafNodeDotSize: "number",
+  internalNodeDotSize: "number",
+  scaleBarLabelSize: "number",
+  scaleBarLabelPosition: SCALE_BAR_LABEL_POSITIONS,
+  exportScaleBarCorner: SCALE_BAR_CORNERS,
+  exportSizeMode: ["auto", "custom"],
+  exportWidth: "string",
+  exportHeight: "string",
+  exportKeepAspect: "boolean",
+  pngScale: "number",
+};
+
+type ProjectNodeFieldKind = "number" | "boolean" | "string" | "numbers" | "strings" | "record" | readonly string[];
+// Node fields with a known type; a saved value of another type is dropped when the project is read.
+const PROJECT_NODE_FIELD_KINDS: Partial<Record<keyof TreeNode, ProjectNodeFieldKind>> = {
+  __id: "number",
+  __edgeColor: "string",
+  __edgeWidth: "number",
+  __color: "string",
+  __nodeSize: "number",
+  __labelBold: "boolean",
+  __labelFontSize: "number",
+  __cladoOffset: "number",
+  __collapsed: "boolean",
+  __collapsedTipCount: "number",
+  __isCollapsedPlaceholder: "boolean",
+  __annotations: "record",
+  __annotationFormat: ["beast", "nhx"],
+  __supports: "numbers",
+  __metadata: "strings",
+  name: "string",
+  length: "number",
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+function isProjectText(text: string): boolean {
+  return /^\s*\{/.test(text) && /"format"\s*:\s*"phyloweaver-project"/.test(text);
+}
+function checkProjectVersion(raw: Record<string, unknown>) {
+  const version = raw.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) throw new Error("Project file has no valid version");
+  if (version > PROJECT_VERSION) {
+    throw new Error(`project version ${version} is newer than this version of PhyloWeaver supports (${PROJECT_VERSION})`);
+  }
+}
+function sanitizeProjectSettings(raw: unknown): Partial<ProjectSettings> {
+  const settings: Record<string, unknown> = {};
+  if (!isRecord(raw)) return settings;
+  for (const [key, kind] of Object.entries(PROJECT_SETTING_KINDS)) {
+    const value = raw[key];
+    const valid = typeof kind !== "string"
+      ? kind.includes(value as string)
+      : kind === "number"
+        ? typeof value === "number" && Number.isFinite(value)
+        : typeof value === kind;
+    if (valid) settings[key] = value;
+  }
+  return settings as Partial<ProjectSettings>;
+}
+function sanitizeNewickExportOptions(raw: unknown): NewickExportOptions {
+  if (!isRecord(raw)) return DEFAULT_NEWICK_EXPORT_OPTIONS;
+  const options: NewickExportOptions = { ...DEFAULT_NEWICK_EXPORT_OPTIONS };
+  const flag = (key: keyof NewickExportOptions) => (typeof raw[key] === "boolean" ? (raw[key] as boolean) : (DEFAULT_NEWICK_EXPORT_OPTIONS[key] as boolean));
+  options.includeLengths = flag("includeLengths");
+  options.includeInternalNames = flag("includeInternalNames");
+  options.includeSupports = flag("includeSupports");
+  options.includeAnnotations = flag("includeAnnotations");
+  options.nameEmptyLeaves = flag("nameEmptyLeaves");
+  if (raw.lengthFormat === "fixed" || raw.lengthFormat === "scientific") options.lengthFormat = raw.lengthFormat;
+  if (typeof raw.lengthPrecision === "number" && Number.isFinite(raw.lengthPrecision)) options.lengthPrecision = raw.lengthPrecision;
+  if (typeof raw.supportComponent === "number" && Number.isInteger(raw.supportComponent)) options.supportComponent = raw.supportComponent;
+  if (NEWICK_QUOTING_OPTIONS.includes(raw.quoting as NewickQuoting)) options.quoting = raw.quoting as NewickQuoting;
+  if (raw.rootMarker === "none" || raw.rootMarker === "rooted" || raw.rootMarker === "unrooted") options.rootMarker = raw.rootMarker;
+  if (raw.collapsedClades === "expanded" || raw.collapsedClades === "placeholder") options.collapsedClades = raw.collapsedClades;
+  return options;
+}
+// Appends a tree to a project node table and returns the row of its root. Nodes already in `rowOf` are not
+// written again.
+function addProjectTree(rows: ProjectNodeRecord[], rowOf: Map<TreeNode, number>, root: TreeNode): number {
+  const stack: { node: TreeNode; expanded: boolean }[] = [{ node: root, expanded: false }];
+  while (stack.length) {
+    const top = stack[stack.length - 1];
+    if (rowOf.has(top.node)) {
+      stack.pop();
+      continue;
+    }
+    const children = top.node.children;
+    if (!top.expanded) {
+      top.expanded = true;
+      children?.forEach((child) => stack.push({ node: child, expanded: false }));
+      continue;
+    }
+    stack.pop();
+    const record = { ...top.node } as ProjectNodeRecord;
+    if (children) record.children = children.map((child) => rowOf.get(child) as number);
+    rowOf.set(top.node, rows.length);
+    rows.push(record);
+  }
+  return rowOf.get(root) as number;
+}
+// Adds undo states nearest the current one first until the table reaches PROJECT_HISTORY_ROW_LIMIT, so the
+// saved steps stay contiguous around the current one.
+function addProjectHistory(rows: ProjectNodeRecord[], rowOf: Map<TreeNode, number>, stack: TreeNode[], index: number) {
+  const order = stack.map((_, k) => k).sort((a, b) => Math.abs(a - index) - Math.abs(b - index) || a - b);
+  const saved = new Map<number, number>();
+  for (const k of order) {
+    if (saved.size && rows.length >= PROJECT_HISTORY_ROW_LIMIT) break;
+    saved.set(k, addProjectTree(rows, rowOf, stack[k]));
+  }
+  const kept = [...saved.keys()].sort((a, b) => a - b);
+  return { stack: kept.map((k) => saved.get(k) as number), index: kept.indexOf(index) };
+}
+function readProjectNodes(raw: unknown): TreeNode[] {
+  if (!Array.isArray(raw)) throw new Error("node table is missing");
+  const nodes: TreeNode[] = [];
+  raw.forEach((record, row) => {
+    if (!isRecord(record)) throw new Error(`node ${row + 1} is invalid`);
+    const node = { ...record } as TreeNode;
+    for (const [key, kind] of Object.entries(PROJECT_NODE_FIELD_KINDS) as [string, ProjectNodeFieldKind][]) {
+      const value = record[key];
+      if (value === undefined) continue;
+      const valid = typeof kind !== "string"
+        ? kind.includes(value as string)
+        : kind === "number"
+          ? typeof value === "number" && Number.isFinite(value)
+          : kind === "numbers"
+            ? Array.isArray(value) && value.every((v) => typeof v === "number" && Number.isFinite(v))
+            : kind === "strings"
+              ? isRecord(value) && Object.values(value).every((v) => typeof v === "string")
+              : kind === "record" ? isRecord(value) : typeof value === kind;
+      if (!valid) delete node[key];
+    }
+    if (node.__id !== undefined && !Number.isInteger(node.__id)) delete node.__id;
+    if (record.children !== undefined) {
+      const children = record.children;
+      if (!Array.isArray(children) || !children.every((child) => Number.isInteger(child) && child >= 0 && child < row)) {
+        throw new Error(`node ${row + 1} has invalid children`);
+      }
+      node.children = children.map((child) => nodes[child]);
+    }
+    nodes.push(node);
+  });
+  return nodes;
+}
+function readProjectTree(nodes: TreeNode[], value: unknown, label: string): TreeNode {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value >= nodes.length) {
+    throw new Error(`${label} is missing or not a tree`);
+  }
+  return nodes[value];
+}
+function clampHistoryIndex(index: unknown, length: number): number {
+  if (!length) return -1;
+  const numeric = typeof index === "number" && Number.isInteger(index) ? index : length - 1;
+  return Math.max(0, Math.min(length - 1, numeric));
+}
+function parseProjectFile(text: string): ProjectFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    throw new Error("Project file is not valid JSON: " + message);
+  }
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) throw new Error("Not a PhyloWeaver project file");
+  checkProjectVersion(raw);
+  const nodes = readProjectNodes(raw.nodes);
+  const tree = readProjectTree(nodes, raw.tree, "tree");
+  const history = isRecord(raw.history) ? raw.history : {};
+  const stack = Array.isArray(history.stack)
+    ? history.stack.slice(-HISTORY_LIMIT).map((entry, i) => readProjectTree(nodes, entry, `history entry ${i + 1}`))
+    : [];
+  const collection = isRecord(raw.collection) ? raw.collection : {};
+  const entries = Array.isArray(collection.entries)
+    ? collection.entries.map((entry, i): TreeCollectionEntry => {
+        if (!isRecord(entry)) throw new Error(`collection entry ${i + 1} is invalid`);
+        const entryHistory = Array.isArray(entry.history)
+          ? entry.history.slice(-HISTORY_LIMIT).map((h, j) => readProjectTree(nodes, h, `collection entry ${i + 1} history ${j + 1}`))
+          : [];
+        return {
+          name: typeof entry.name === "string" ? entry.name : `Tree ${i + 1}`,
+          tree: readProjectTree(nodes, entry.tree, `collection entry ${i + 1}`),
+          history: entryHistory,
+          historyIndex: clampHistoryIndex(entry.historyIndex, entryHistory.length),
+        };
+      })
+    : [];
+  const activeIndex = entries.length
+    ? Math.max(0, Math.min(entries.length - 1, typeof collection.activeIndex === "number" ? Math.round(collection.activeIndex) : 0))
+    : 0;
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    generator: typeof raw.generator === "string" ? raw.generator : "",
+    savedAt: typeof raw.savedAt === "string" ? raw.savedAt : "",
+    tree,
+    history: { stack, index: clampHistoryIndex(history.index, stack.length) },
+    collection: { entries, activeIndex },
+    settings: sanitizeProjectSettings(raw.settings),
+    styleMappings: sanitizeStyleMappings(raw.styleMappings),
+    legend: sanitizeLegendConfig(raw.legend),
+    newickExport: sanitizeNewickExportOptions(raw.newickExport),
+  };
+}
+function toProjectFile(project: Omit<ProjectFile, "format" | "version" | "generator" | "savedAt">): string {
+  const rows: ProjectNodeRecord[] = [];
+  const rowOf = new Map<TreeNode, number>();
+  const add = (tree: TreeNode) => addProjectTree(rows, rowOf, tree);
+  const { tree, history, collection, ...rest } = project;
+  // Current trees first, so only history is dropped when the table gets too large.
+  const treeRow = add(tree);
+  const entryRows = collection.entries.map((entry) => add(entry.tree));
+  const payload = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    generator: `PhyloWeaver ${APP_VERSION}`,
+    savedAt: new Date().toISOString(),
+    ...rest,
+    tree: treeRow,
+    history: addProjectHistory(rows, rowOf, history.stack, history.index),
+    collection: {
+      entries: collection.entries.map((entry, i) => {
+        const saved = addProjectHistory(rows, rowOf, entry.history, entry.historyIndex);
+        return { ...entry, tree: entryRows[i], history: saved.stack, historyIndex: saved.index };
+      }),
+      activeIndex: collection.activeIndex,
+    },
+    nodes: rows,
+  };
+  return JSON.stringify(payload, null, 2) + "\n";
 }
 
 /** ---------- utils ---------- */
-const clone = <T,>(o: T): T => JSON.parse(JSON.stringify(o)) as T;
-function collectTips(node: TreeNode, arr: TreeNode[] = []): TreeNode[] {
-  if (!node.children?.length) arr.push(node);
-  else node.children.forEach((c) => collectTips(c, arr));
-  return arr;
-}
-function mapTipNames(node: TreeNode | null | undefined, map: Map<number, string[]>): string[] {
-  if (!node) return [];
-  if (!node.children?.length) {
-    const label = (node.name ?? "Unnamed").toString().trim() || "Unnamed";
-    if (node.__id !== undefined) map.set(node.__id, [label]);
-    return [label];
-  }
-  const all = node.children.flatMap((child)=>mapTipNames(child, map));
-  if (node.__id !== undefined) map.set(node.__id, all);
-  return all;
+// Same shape as d3.hierarchy, but heights come from one bottom-up pass: d3 walks up from every node,
+// which is quadratic on deep ladder-like trees.
+function buildHierarchy(root: TreeNode): d3.HierarchyNode<TreeNode> {
+  const leafNode = (data: TreeNode) => d3.hierarchy<TreeNode>(data, () => null);
+  const nodes = [leafNode(root)];
+  for (let k = 0; k < nodes.length; k++) {
+    const node = nodes[k];
+    const children = node.data.children;
+    if (!children?.length) continue;
+    node.children = children.map((child) => {
+      const childNode = Object.assign(leafNode(child), { parent: node, depth: node.depth + 1 });
+      nodes.push(childNode);
+      return childNode;
+    });
+  }
+  for (let k = nodes.length - 1; k > 0; k--) {
+    const parent = nodes[k].parent as d3.HierarchyNode<TreeNode>;
+    if (parent.height <= nodes[k].height) Object.assign(parent, { height: nodes[k].height + 1 });
+  }
+  return nodes[0];
+}
+// Tip names for collapsed clades only, for their tooltips; listing every clade's tips is quadratic on deep trees.
+function mapTipNames(node: TreeNode | null | undefined, map: Map<number, string[]>) {
+  if (!node) return;
+  forEachNode(node, (n) => {
+    if (!n.__collapsed || !n.children?.length) return;
+    if (n.__id !== undefined) map.set(n.__id, collectTips(n).map((tip) => (tip.name ?? "Unnamed").toString().trim() || "Unnamed"));
+    return false;
+  });
 }
 function mapTipCounts(node: TreeNode | null | undefined, map: Map<number, number>): number {
   if (!node) return 0;
-  if (!node.children?.length) {
-    if (node.__id !== undefined) map.set(node.__id, 1);
-    return 1;
-  }
-  const sum = node.children.reduce((acc, child) => acc + mapTipCounts(child, map), 0);
-  if (node.__id !== undefined) map.set(node.__id, sum);
-  return sum;
+  const counts = new Map<TreeNode, number>();
+  listNodes(node).reverse().forEach((n) => {
+    const count = n.children?.length ? n.children.reduce((acc, child) => acc + (counts.get(child) ?? 0), 0) : 1;
+    counts.set(n, count);
+    if (n.__id !== undefined) map.set(n.__id, count);
+  });
+  return counts.get(node) ?? 0;
 }
 function clampExportDimension(value: number): number {
   if(!Number.isFinite(value)) return MIN_EXPORT_SIZE;
@@ -507,53 +2132,107 @@ function computeFitTranslation(boxStart: number, boxSize: number, targetStart: n
 let __ID = 1;
 const nextId = () => __ID++;
 function ensureIds<T extends TreeNode>(n: T): T {
-  (function assignIds(x: TreeNode) {
+  forEachNode(n, (x) => {
     if (!x.__id) x.__id = nextId();
-    x.children?.forEach(assignIds);
-  })(n);
+  });
   return n;
 }
+// Moves the id counter past every id in a restored tree so new nodes never collide with it.
+function reserveIds(root: TreeNode): void {
+  forEachNode(root, (x) => {
+    if (typeof x.__id === "number" && x.__id >= __ID) __ID = x.__id + 1;
+  });
+}
 function findById(root: TreeNode, id?: number): TreeNode | null {
   let found: TreeNode | null = null;
-  d3.hierarchy<TreeNode>(root).each((d) => {
-    if (d.data.__id === id) found = d.data;
+  forEachNode(root, (node) => {
+    if (found) return false;
+    if (node.__id === id) found = node;
   });
   return found;
 }
-function parentOf(root: TreeNode, childId: number): TreeNode | null {
-  let parent: TreeNode | null = null;
-  d3.hierarchy<TreeNode>(root).each((d) => {
-    d.children?.forEach((c) => {
-      if (c.data.__id === childId) parent = d.data;
-    });
+
+/** ---------- tree index / copy-on-write edits ---------- */
+// Committed trees are never mutated: edits copy the nodes they touch and share every other subtree,
+// so undo history entries cost only the copied paths and an index per tree state stays valid.
+type TreeIndex = { nodes: Map<number, TreeNode>; parents: Map<number, TreeNode | null> };
+const treeIndexCache = new WeakMap<TreeNode, TreeIndex>();
+// Only for committed trees; a draft that is still being changed would leave the cached index stale.
+function getTreeIndex(root: TreeNode): TreeIndex {
+  const cached = treeIndexCache.get(root);
+  if (cached) return cached;
+  const index: TreeIndex = { nodes: new Map(), parents: new Map() };
+  forEachNode(root, (node, parent) => {
+    if (node.__id === undefined) return;
+    index.nodes.set(node.__id, node);
+    index.parents.set(node.__id, parent);
   });
-  return parent;
+  treeIndexCache.set(root, index);
+  return index;
 }
-function containsTipId(node: TreeNode, tipId: number): boolean {
-  let ok = false;
-  d3.hierarchy<TreeNode>(node).each((d) => {
-    if (!d.children && d.data.__id === tipId) ok = true;
+// Copies the nodes with the given ids and their ancestors (with fresh children arrays) and passes the
+// copies to `edit`, which may change their fields and add, drop or reorder their children but must
+// leave every other node alone. Returns the new root, or `root` itself when no id was found.
+function editTree(root: TreeNode, ids: Iterable<number>, edit: (writable: Map<number, TreeNode>) => void): TreeNode {
+  const index = getTreeIndex(root);
+  const writable = new Map<number, TreeNode>();
+  let nextRoot = root;
+  const copyNode = (node: TreeNode) => {
+    const copy: TreeNode = { ...node };
+    if (node.children) copy.children = [...node.children];
+    writable.set(node.__id as number, copy);
+    return copy;
+  };
+  for (const id of ids) {
+    if (writable.has(id) || !index.nodes.has(id)) continue;
+    // Path from the node up to the root or to the first ancestor that is already copied.
+    const path: TreeNode[] = [];
+    for (let node: TreeNode | null = index.nodes.get(id) ?? null; node && !writable.has(node.__id as number); node = index.parents.get(node.__id as number) ?? null) {
+      path.push(node);
+    }
+    for (let k = path.length - 1; k >= 0; k--) {
+      const original = path[k];
+      const copy = copyNode(original);
+      const parent = index.parents.get(original.__id as number);
+      if (!parent) {
+        nextRoot = copy;
+        continue;
+      }
+      const siblings = writable.get(parent.__id as number)?.children ?? [];
+      siblings[siblings.indexOf(original)] = copy;
+    }
+  }
+  if (nextRoot === root) return root;
+  edit(writable);
+  return nextRoot;
+}
+// Copy-on-write version of collapseUnaryInPlace: only unary nodes and their neighbours are copied.
+function collapseUnaryNodes(root: TreeNode): TreeNode {
+  const ids: number[] = [];
+  forEachNode(root, (node, parent) => {
+    if (!parent || node.children?.length !== 1) return;
+    [parent, node, node.children[0]].forEach((n) => {
+      if (n.__id !== undefined) ids.push(n.__id);
+    });
+  });
+  if (!ids.length) return root;
+  return editTree(root, ids, (writable) => {
+    collapseUnaryInPlace(writable.get(root.__id as number) as TreeNode);
   });
-  return ok;
 }
 
 /** ---------- reroot / edit ---------- */
 function rerootAt(root: TreeNode, newRootData: TreeNode | null): TreeNode {
   if (!root) return root;
-  const nodes: TreeNode[] = [];
-  (function collect(n: TreeNode) {
-    nodes.push(n);
-    n.children?.forEach(collect);
-  })(root);
+  const nodes = listNodes(root);
   const parentMap = new Map<TreeNode, TreeNode>();
   const childLen = new Map<TreeNode, number>();
-  (function setParents(n: TreeNode) {
+  nodes.forEach((n) => {
     n.children?.forEach((c) => {
       parentMap.set(c, n);
       childLen.set(c, Number.isFinite(c.length) ? (c.length as number) : 0);
-      setParents(c);
     });
-  })(root);
+  });
   let newRoot: TreeNode | null = null;
   for (const n of nodes) {
     if (n === newRootData) {
@@ -570,21 +2249,37 @@ function rerootAt(root: TreeNode, newRootData: TreeNode | null): TreeNode {
       adj.get(c)?.push(p);
     }
   }
-  function build(curr: TreeNode, prev: TreeNode | null): TreeNode {
-    const node: TreeNode = { name: curr.name, length: undefined };
+  // Node fields (ids, styling, annotations) stay with the node; the edge fields are set per edge below.
+  const copyNode = (curr: TreeNode): TreeNode => {
+    const node: TreeNode = { ...curr };
+    delete node.children;
+    delete node.length;
+    delete node.__supports;
+    delete node.__edgeColor;
+    delete node.__edgeWidth;
+    return node;
+  };
+  const r = copyNode(newRoot);
+  const stack: { curr: TreeNode; prev: TreeNode | null; node: TreeNode }[] = [{ curr: newRoot, prev: null, node: r }];
+  while (stack.length) {
+    const { curr, prev, node } = stack.pop() as (typeof stack)[number];
     const children: TreeNode[] = [];
-    const neighbors = adj.get(curr) ?? [];
-    for (const nb of neighbors) {
+    for (const nb of adj.get(curr) ?? []) {
       if (nb === prev) continue;
-      const ch = build(nb, curr);
+      const ch = copyNode(nb);
       const wasChild = parentMap.get(nb) === curr;
       ch.length = wasChild ? childLen.get(nb) ?? 0 : childLen.get(curr) ?? 0;
+      // Supports describe the bipartition of an edge, so they follow the edge rather than the node,
+      // and so does the edge's color and width.
+      const edgeOwner = wasChild ? nb : curr;
+      if (edgeOwner.__supports) ch.__supports = edgeOwner.__supports;
+      if (edgeOwner.__edgeColor) ch.__edgeColor = edgeOwner.__edgeColor;
+      if (edgeOwner.__edgeWidth !== undefined) ch.__edgeWidth = edgeOwner.__edgeWidth;
       children.push(ch);
+      stack.push({ curr: nb, prev: curr, node: ch });
     }
     if (children.length) node.children = children;
-    return node;
   }
-  const r = build(newRoot, null);
   delete r.length;
   return r;
 }
@@ -593,6 +2288,8 @@ function splitEdge(parentNode: TreeNode, childNode: TreeNode, t: number): TreeNo
   const eps = Math.max(1e-9, L * 1e-6);
   const tt = Math.min(Math.max(t, eps), Math.max(eps, L - eps));
   const newInternal: TreeNode = { name: "", children: [childNode], length: tt };
+  if (childNode.__edgeColor) newInternal.__edgeColor = childNode.__edgeColor;
+  if (childNode.__edgeWidth !== undefined) newInternal.__edgeWidth = childNode.__edgeWidth;
   const idx = (parentNode.children || []).findIndex((c) => c === childNode);
   if (idx >= 0) parentNode.children?.splice(idx, 1, newInternal);
   else {
@@ -603,53 +2300,583 @@ function splitEdge(parentNode: TreeNode, childNode: TreeNode, t: number): TreeNo
   return newInternal;
 }
 function rerootOnEdge(treeRoot: TreeNode, parentId: number, childId: number, frac = 0.5): TreeNode {
-  const P = findById(treeRoot, parentId);
-  const C = findById(treeRoot, childId);
-  if (!P || !C) return treeRoot;
-  const L = Number.isFinite(C.length) ? (C.length as number) : 0;
-  const newInternal = splitEdge(P, C, L * (Number.isFinite(frac) ? frac : 0.5));
-  const rebuilt = rerootAt(treeRoot, newInternal);
+  let newInternal: TreeNode | null = null;
+  const split = editTree(treeRoot, [parentId, childId], (writable) => {
+    const P = writable.get(parentId);
+    const C = writable.get(childId);
+    if (!P || !C) return;
+    const L = Number.isFinite(C.length) ? (C.length as number) : 0;
+    newInternal = splitEdge(P, C, L * (Number.isFinite(frac) ? frac : 0.5));
+  });
+  if (!newInternal) return treeRoot;
+  const rebuilt = rerootAt(split, newInternal);
   ensureIds(rebuilt);
   return rebuilt;
 }
-function collapseUnaryInPlace(node: TreeNode): TreeNode {
-  if (!node.children?.length) return node;
-  node.children.forEach((c) => collapseUnaryInPlace(c));
-  for (let i = 0; i < node.children.length; i++) {
-    const ch = node.children[i];
-    if (ch?.children?.length === 1) {
-      const gc = ch.children[0];
-      if (Number.isFinite(ch.length)) gc.length = (Number.isFinite(gc.length) ? (gc.length as number) : 0) + (ch.length as number);
-      if (ch.__edgeColor && !gc.__edgeColor) gc.__edgeColor = ch.__edgeColor;
-      if (typeof ch.__edgeWidth === "number" && ch.__edgeWidth > 0 && gc.__edgeWidth === undefined) {
-        gc.__edgeWidth = ch.__edgeWidth;
+function collapseUnaryInPlace(root: TreeNode): TreeNode {
+  // Children first, so each unary chain below a node is already shortened when the node is visited.
+  listNodes(root).reverse().forEach((node) => {
+    if (!node.children?.length) return;
+    for (let i = 0; i < node.children.length; i++) {
+      const ch = node.children[i];
+      if (ch?.children?.length === 1) {
+        const gc = ch.children[0];
+        if (Number.isFinite(ch.length)) gc.length = (Number.isFinite(gc.length) ? (gc.length as number) : 0) + (ch.length as number);
+        if (ch.__edgeColor && !gc.__edgeColor) gc.__edgeColor = ch.__edgeColor;
+        if (ch.__supports && !gc.__supports) gc.__supports = ch.__supports;
+        if (typeof ch.__edgeWidth === "number" && ch.__edgeWidth > 0 && gc.__edgeWidth === undefined) {
+          gc.__edgeWidth = ch.__edgeWidth;
+        }
+        node.children.splice(i, 1, gc);
+        i--;
+      }
+    }
+  });
+  return root;
+}
+
+/** ---------- automatic rooting ---------- */
+// A root position `offset` units below the parent end of the edge leading to `childId`.
+type RootPlacement = { parentId: number; childId: number; offset: number; length: number };
+type RootingReport = RootPlacement & (
+  | { method: "midpoint"; tipA: string; tipB: string; pathLength: number }
+  | { method: "mad"; deviation: number; ambiguity: number | null }
+  | { method: "outgroup"; outgroupSize: number; intruders: string[]; missing: string[] }
+);
+// MAD looks at every pair of tips, so its cost grows with the square of the tip count.
+const MAD_ROOTING_TIP_LIMIT = 2000;
+// How many non-outgroup tips the confirmation before a non-monophyletic outgroup rooting names.
+const OUTGROUP_INTRUDER_PREVIEW_LIMIT = 20;
+// The tree as an unrooted graph over array positions; `length[i]` is the edge above node i.
+type RootingGraph = { nodes: TreeNode[]; parent: Int32Array; length: Float64Array; neighbors: number[][]; tips: number[] };
+function buildRootingGraph(root: TreeNode): RootingGraph {
+  const nodes = listNodes(root);
+  const position = new Map(nodes.map((node, i) => [node, i]));
+  const parent = new Int32Array(nodes.length).fill(-1);
+  const length = new Float64Array(nodes.length);
+  const neighbors: number[][] = nodes.map(() => []);
+  const tips: number[] = [];
+  nodes.forEach((node, i) => {
+    if (!node.children?.length) tips.push(i);
+    node.children?.forEach((child) => {
+      const c = position.get(child) as number;
+      parent[c] = i;
+      length[c] = Number.isFinite(child.length) ? Math.max(0, child.length as number) : 0;
+      neighbors[i].push(c);
+      neighbors[c].push(i);
+    });
+  });
+  return { nodes, parent, length, neighbors, tips };
+}
+// Path lengths from `start`, the previous node on each path, and the nodes in visiting order (parents first).
+// MAD calls this once per tip, so it reuses the caller's buffers when given.
+function graphDistances(
+  graph: RootingGraph,
+  start: number,
+  distance = new Float64Array(graph.nodes.length),
+  previous = new Int32Array(graph.nodes.length),
+  order = new Int32Array(graph.nodes.length),
+) {
+  const { neighbors, parent, length } = graph;
+  previous.fill(-1);
+  distance[start] = 0;
+  const stack = new Int32Array(graph.nodes.length);
+  let visited = 0;
+  let pending = 0;
+  stack[pending++] = start;
+  while (pending) {
+    const v = stack[--pending];
+    order[visited++] = v;
+    const around = neighbors[v];
+    for (let k = 0; k < around.length; k++) {
+      const w = around[k];
+      if (w === previous[v]) continue;
+      previous[w] = v;
+      distance[w] = distance[v] + (parent[w] === v ? length[w] : length[v]);
+      stack[pending++] = w;
+    }
+  }
+  return { distance, previous, order };
+}
+function farthestTip(graph: RootingGraph, distance: Float64Array): number {
+  return graph.tips.reduce((best, tip) => (distance[tip] > distance[best] ? tip : best), graph.tips[0]);
+}
+// A point `along` units from `from` on the edge between the neighbors `from` and `to`.
+function placementOnEdge(graph: RootingGraph, from: number, to: number, along: number): RootPlacement {
+  const child = graph.parent[to] === from ? to : from;
+  const length = graph.length[child];
+  return {
+    parentId: graph.nodes[graph.parent[child]].__id as number,
+    childId: graph.nodes[child].__id as number,
+    offset: child === to ? along : length - along,
+    length,
+  };
+}
+// Midpoint rooting: the middle of the longest tip-to-tip path.
+function findMidpointRoot(root: TreeNode): Extract<RootingReport, { method: "midpoint" }> | null {
+  const graph = buildRootingGraph(root);
+  if (graph.tips.length < 2) return null;
+  const a = farthestTip(graph, graphDistances(graph, graph.tips[0]).distance);
+  const { distance, previous } = graphDistances(graph, a);
+  const b = farthestTip(graph, distance);
+  const pathLength = distance[b];
+  if (!(pathLength > 0)) return null;
+  const half = pathLength / 2;
+  let node = b;
+  while (previous[node] >= 0 && distance[previous[node]] >= half) node = previous[node];
+  const from = previous[node];
+  return {
+    method: "midpoint",
+    ...placementOnEdge(graph, from, node, half - distance[from]),
+    tipA: graph.nodes[a].name || "Unnamed",
+    tipB: graph.nodes[b].name || "Unnamed",
+    pathLength,
+  };
+}
+// Minimal ancestor deviation rooting (Tria, Landan & Dagan 2017). For a root position, each pair of tips b, c
+// has the relative deviation 2·d(b, a)/d(b, c) − 1, where a is the point where the path from b to c comes
+// closest to the root; the root goes where the root mean square of these deviations is lowest. Hanging the
+// tree from each tip b in turn, the squared deviations of b's pairs form a quadratic in the root's position on
+// every edge, so all edges are scored in O(tips × nodes).
+function findMadRoot(root: TreeNode): Extract<RootingReport, { method: "mad" }> | null {
+  const graph = buildRootingGraph(root);
+  const n = graph.nodes.length;
+  if (graph.tips.length < 3) return null;
+  const isTip = new Uint8Array(n);
+  graph.tips.forEach((tip) => { isTip[tip] = 1; });
+  // Per edge (indexed by its child), the summed squared deviations as qa·x² + qb·x + qc, x below the parent end.
+  const qa = new Float64Array(n);
+  const qb = new Float64Array(n);
+  const qc = new Float64Array(n);
+  // Per node of the tree hung from b: sums of 1/d², 1/d and tip counts below it, and the squared deviations
+  // of b's pairs whose path does not enter the subtree (their ancestor point is fixed above it).
+  const inverseSquare = new Float64Array(n);
+  const inverse = new Float64Array(n);
+  const count = new Float64Array(n);
+  const outside = new Float64Array(n);
+  let pairs = 0;
+  const distance = new Float64Array(n);
+  const previous = new Int32Array(n);
+  const order = new Int32Array(n);
+  for (const b of graph.tips) {
+    graphDistances(graph, b, distance, previous, order);
+    inverseSquare.fill(0);
+    inverse.fill(0);
+    count.fill(0);
+    for (let k = order.length - 1; k >= 0; k--) {
+      const v = order[k];
+      if (v !== b && isTip[v] && distance[v] > 0) {
+        inverseSquare[v] += 1 / (distance[v] * distance[v]);
+        inverse[v] += 1 / distance[v];
+        count[v] += 1;
+        pairs += 1;
       }
-      node.children.splice(i, 1, gc);
-      i--;
+      const p = previous[v];
+      if (p < 0) continue;
+      inverseSquare[p] += inverseSquare[v];
+      inverse[p] += inverse[v];
+      count[p] += count[v];
+    }
+    // Squared deviations of the tips below v when their ancestor point lies h units from b.
+    const spread = (v: number, h: number) => 4 * h * h * inverseSquare[v] - 4 * h * inverse[v] + count[v];
+    for (let k = 0; k < n; k++) {
+      const v = order[k];
+      const p = previous[v];
+      outside[v] = p < 0 ? 0 : outside[p] + spread(p, distance[p]) - spread(v, distance[p]);
+    }
+    for (let v = 0; v < n; v++) {
+      const parentIndex = graph.parent[v];
+      if (parentIndex < 0) continue;
+      // `far` is the end of the edge away from b; with the root x below the parent end, b's pairs with tips
+      // under `far` meet at the root, h = alpha + beta·x from b.
+      const downward = previous[v] === parentIndex;
+      const far = downward ? v : parentIndex;
+      const alpha = downward ? distance[parentIndex] : distance[v] + graph.length[v];
+      const beta = downward ? 1 : -1;
+      qa[v] += 4 * inverseSquare[far];
+      qb[v] += 8 * alpha * beta * inverseSquare[far] - 4 * beta * inverse[far];
+      qc[v] += 4 * alpha * alpha * inverseSquare[far] - 4 * alpha * inverse[far] + count[far] + outside[far];
+    }
+  }
+  if (!pairs) return null;
+  // The two edges below a bifurcating root are one edge of the unrooted tree.
+  const rootIndex = graph.nodes.indexOf(root);
+  const rootEdges = graph.neighbors[rootIndex].length === 2 ? graph.neighbors[rootIndex] : [];
+  const sameEdge = (a: number, b: number) => a === b || (rootEdges.includes(a) && rootEdges.includes(b));
+  let best = -1;
+  let bestOffset = 0;
+  let bestScore = Infinity;
+  const scores: { edge: number; score: number }[] = [];
+  for (let v = 0; v < n; v++) {
+    if (graph.parent[v] < 0) continue;
+    const length = graph.length[v];
+    const offset = qa[v] > 0 ? Math.min(length, Math.max(0, -qb[v] / (2 * qa[v]))) : 0;
+    const score = Math.max(0, qa[v] * offset * offset + qb[v] * offset + qc[v]);
+    scores.push({ edge: v, score });
+    if (score < bestScore) {
+      best = v;
+      bestOffset = offset;
+      bestScore = score;
+    }
+  }
+  if (best < 0) return null;
+  const runnerUp = scores.reduce((min, { edge, score }) => (sameEdge(edge, best) ? min : Math.min(min, score)), Infinity);
+  const deviation = Math.sqrt(bestScore / pairs);
+  const secondDeviation = Math.sqrt(runnerUp / pairs);
+  return {
+    method: "mad",
+    ...placementOnEdge(graph, graph.parent[best], best, bestOffset),
+    deviation,
+    ambiguity: Number.isFinite(secondDeviation) && secondDeviation > 0 ? deviation / secondDeviation : null,
+  };
+}
+// Outgroup rooting: the edge with every outgroup tip on one side and the fewest other tips with them. That side
+// is the clade of the outgroup's MRCA, or the rest of the tree when the outgroup spans the current root; the
+// other tips on it (`intruders`) show why the outgroup is not monophyletic. The root goes mid-stem.
+function findOutgroupStem(root: TreeNode, outgroup: Set<number>): (RootPlacement & { intruders: string[] }) | null {
+  const nodes = listNodes(root);
+  const tipsBelow = new Map<TreeNode, number>();
+  const outgroupBelow = new Map<TreeNode, number>();
+  const parents = new Map<TreeNode, TreeNode>();
+  for (let k = nodes.length - 1; k >= 0; k--) {
+    const node = nodes[k];
+    let tips = node.children?.length ? 0 : 1;
+    let inside = !node.children?.length && outgroup.has(node.__id as number) ? 1 : 0;
+    node.children?.forEach((child) => {
+      parents.set(child, node);
+      tips += tipsBelow.get(child) ?? 0;
+      inside += outgroupBelow.get(child) ?? 0;
+    });
+    tipsBelow.set(node, tips);
+    outgroupBelow.set(node, inside);
+  }
+  const total = tipsBelow.get(root) ?? 0;
+  const size = outgroupBelow.get(root) ?? 0;
+  if (!size || size >= total) return null;
+  let best: { node: TreeNode; below: boolean; extra: number } | null = null;
+  for (const node of nodes) {
+    if (node === root) continue;
+    const tips = tipsBelow.get(node) ?? 0;
+    const inside = outgroupBelow.get(node) ?? 0;
+    if (inside === size && (!best || tips - size < best.extra)) best = { node, below: true, extra: tips - size };
+    if (inside === 0 && (!best || total - tips - size < best.extra)) best = { node, below: false, extra: total - tips - size };
+  }
+  if (!best) return null;
+  const stem = best.node;
+  const stemTips = new Set(collectTips(stem));
+  const intruders = collectTips(root)
+    .filter((tip) => stemTips.has(tip) === best.below && !outgroup.has(tip.__id as number))
+    .map((tip) => tip.name || "Unnamed");
+  const length = Number.isFinite(stem.length) ? Math.max(0, stem.length as number) : 0;
+  return {
+    parentId: (parents.get(stem) as TreeNode).__id as number,
+    childId: stem.__id as number,
+    offset: length / 2,
+    length,
+    intruders,
+  };
+}
+// Roots at a placement; one that falls on a node roots at the node rather than adding a zero-length edge.
+// Unary nodes left behind are for the caller to collapse.
+function rerootAtPlacement(root: TreeNode, placement: RootPlacement): TreeNode {
+  const { parentId, childId, offset, length } = placement;
+  const index = getTreeIndex(root);
+  const tolerance = length * 1e-9;
+  const parent = index.nodes.get(parentId);
+  const child = index.nodes.get(childId);
+  if (parent && offset <= tolerance) return parent === root ? root : rerootAt(root, parent);
+  if (child?.children?.length && offset >= length - tolerance) return rerootAt(root, child);
+  return rerootOnEdge(root, parentId, childId, length > 0 ? offset / length : 0.5);
+}
+
+/** ---------- child ordering ---------- */
+type ChildSortKey = "size" | "name" | "metadata" | "length";
+type ChildOrder = { key: ChildSortKey; descending: boolean; column?: string };
+type SortValue = string | number;
+function compareSortValues(a: SortValue, b: SortValue): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: "base" });
+}
+// Sort values by node id for every node under `top`. Clade size sums its tips and branch length is the node's
+// own edge; for names and metadata a clade ranks by the tip that comes first in it once it is sorted.
+function childSortValues(top: TreeNode, order: ChildOrder): Map<number, SortValue> {
+  const values = new Map<number, SortValue>();
+  const column = order.column ?? "";
+  const metadataOf = (tip: TreeNode) => {
+    const raw = tip.__metadata?.[column]?.trim();
+    return raw ? raw : undefined;
+  };
+  const numeric = order.key === "metadata" && collectTips(top).every((tip) => {
+    const raw = metadataOf(tip);
+    return raw === undefined || Number.isFinite(Number(raw));
+  });
+  const first = (a: SortValue | undefined, b: SortValue | undefined) => {
+    if (a === undefined || b === undefined) return a ?? b;
+    return (compareSortValues(a, b) <= 0) !== order.descending ? a : b;
+  };
+  const nodes = listNodes(top);
+  for (let k = nodes.length - 1; k >= 0; k--) {
+    const node = nodes[k];
+    let value: SortValue | undefined;
+    if (order.key === "length") {
+      value = Number.isFinite(node.length) ? (node.length as number) : undefined;
+    } else if (node.children?.length) {
+      value = order.key === "size"
+        ? node.children.reduce((sum, child) => sum + ((values.get(child.__id as number) as number | undefined) ?? 0), 0)
+        : node.children.reduce<SortValue | undefined>((best, child) => first(best, values.get(child.__id as number)), undefined);
+    } else if (order.key === "size") {
+      value = 1;
+    } else if (order.key === "name") {
+      value = node.name || "";
+    } else {
+      const raw = metadataOf(node);
+      value = raw === undefined ? undefined : numeric ? Number(raw) : raw;
     }
+    if (value !== undefined) values.set(node.__id as number, value);
   }
-  return node;
+  return values;
+}
+// Array sort is stable, so ties keep their current order; children without a value go last either way.
+function sortChildrenBy(children: TreeNode[], values: Map<number, SortValue>, descending: boolean) {
+  children.sort((a, b) => {
+    const va = values.get(a.__id as number);
+    const vb = values.get(b.__id as number);
+    if (va === undefined || vb === undefined) return (va === undefined ? 1 : 0) - (vb === undefined ? 1 : 0);
+    const diff = compareSortValues(va, vb);
+    return descending ? -diff : diff;
+  });
+}
+
+/** ---------- pruning ---------- */
+// Tip names pasted or uploaded one per line (or separated by tabs, commas or semicolons), matched to tip ids.
+// Every tip carrying a name is matched, so duplicated labels are all included.
+function matchTipNames(root: TreeNode, text: string): { ids: Set<number>; missing: string[] } {
+  const tipsByName = new Map<string, number[]>();
+  collectTips(root).forEach((tip) => {
+    if (tip.__id === undefined) return;
+    const name = tip.name || "Unnamed";
+    tipsByName.set(name, [...(tipsByName.get(name) ?? []), tip.__id]);
+  });
+  const ids = new Set<number>();
+  const missing: string[] = [];
+  const names = [...new Set(text.split(/[\n\r\t,;]+/).map((name) => name.trim()).filter(Boolean))];
+  names.forEach((name) => {
+    const matched = tipsByName.get(name);
+    if (matched) matched.forEach((id) => ids.add(id));
+    else missing.push(name);
+  });
+  return { ids, missing };
+}
+// Ids of the nodes that removing the given tips would drop: the tips themselves and every clade left without tips.
+function prunedNodeIds(root: TreeNode, removed: Set<number>): Set<number> {
+  const nodes = listNodes(root);
+  const dropped = new Set<number>();
+  for (let k = nodes.length - 1; k >= 0; k--) {
+    const node = nodes[k];
+    const gone = node.children?.length
+      ? node.children.every((child) => dropped.has(child.__id as number))
+      : removed.has(node.__id as number);
+    if (gone) dropped.add(node.__id as number);
+  }
+  return dropped;
+}
+// Removes the tips and the clades left empty, then suppresses unary nodes like collapseUnaryNodes (lengths
+// summed, branch styling and supports carried down). A root left with one child is replaced by that child,
+// which drops the edge fields it no longer has an edge for.
+// Returns null when fewer than two tips would remain.
+function pruneTips(root: TreeNode, removed: Set<number>): TreeNode | null {
+  const dropped = prunedNodeIds(root, removed);
+  if (collectTips(root).filter((tip) => !dropped.has(tip.__id as number)).length < 2) return null;
+  const parentIds: number[] = [];
+  forEachNode(root, (node) => {
+    if (dropped.has(node.__id as number)) return false;
+    if (node.children?.some((child) => dropped.has(child.__id as number))) parentIds.push(node.__id as number);
+  });
+  let next = editTree(root, parentIds, (writable) => {
+    parentIds.forEach((id) => {
+      const node = writable.get(id);
+      if (node?.children) node.children = node.children.filter((child) => !dropped.has(child.__id as number));
+    });
+  });
+  next = collapseUnaryNodes(next);
+  while (next.children?.length === 1) {
+    const promoted: TreeNode = { ...next.children[0] };
+    delete promoted.length; delete promoted.__supports; delete promoted.__edgeColor; delete promoted.__edgeWidth;
+    next = promoted;
+  }
+  return next;
+}
+
+/** ---------- polytomies ---------- */
+// Contracts the branch above every internal node `contract` picks: the node goes away and its children attach to
+// its parent in its place. The contracted branch's length is added to each child's branch, so root-to-tip
+// distances do not change; its support, name and styling are dropped with it. The root and tips are never
+// contracted. Returns the new root and the number of branches contracted.
+function contractEdges(root: TreeNode, contract: (node: TreeNode) => boolean): { root: TreeNode; contracted: number } {
+  const index = getTreeIndex(root);
+  const contracted: TreeNode[] = [];
+  forEachNode(root, (node, parent) => {
+    if (parent && node.children?.length && contract(node)) contracted.push(node);
+  });
+  if (!contracted.length) return { root, contracted: 0 };
+  const ids = new Set<number>();
+  contracted.forEach((node) => {
+    ids.add(node.__id as number);
+    ids.add(index.parents.get(node.__id as number)?.__id as number);
+    node.children?.forEach((child) => ids.add(child.__id as number));
+  });
+  const next = editTree(root, ids, (writable) => {
+    // Deepest first, so a contracted child has already handed its children (and its length) up to this node.
+    for (let k = contracted.length - 1; k >= 0; k--) {
+      const id = contracted[k].__id as number;
+      const node = writable.get(id) as TreeNode;
+      const parent = writable.get(index.parents.get(id)?.__id as number) as TreeNode;
+      const children = (node.children ?? []).map((child) => {
+        const copy = writable.get(child.__id as number) as TreeNode;
+        if (Number.isFinite(node.length)) copy.length = (Number.isFinite(copy.length) ? (copy.length as number) : 0) + (node.length as number);
+        return copy;
+      });
+      const siblings = parent.children ?? [];
+      siblings.splice(siblings.indexOf(node), 1, ...children);
+    }
+  });
+  return { root: next, contracted: contracted.length };
+}
+
+/** ---------- Canvas hit testing ---------- */
+// Edges are drawn as "M parent V child.y H child.x", so each one is a vertical segment at the parent's x
+// and a horizontal segment at the child's y; both lists are sorted so a lookup only scans nearby edges.
+type CanvasHitIndex = {
+  nodes: d3.Quadtree<PositionedNode>;
+  leaves: PositionedNode[];
+  horizontal: PositionedLink[];
+  vertical: PositionedLink[];
+};
+function buildCanvasHitIndex(nodes: PositionedNode[], links: PositionedLink[]): CanvasHitIndex {
+  const drawn = links.filter((link) => link.source && link.target);
+  return {
+    nodes: d3.quadtree<PositionedNode>().x((n) => n.x).y((n) => n.y).addAll(nodes),
+    leaves: nodes.filter((n) => !n.d.children?.length).sort((a, b) => a.y - b.y),
+    horizontal: [...drawn].sort((a, b) => (a.target as PositionedNode).y - (b.target as PositionedNode).y),
+    vertical: [...drawn].sort((a, b) => (a.source as PositionedNode).x - (b.source as PositionedNode).x),
+  };
+}
+// Leaves whose row lies within `tolerance` of y.
+function leavesNearY(index: CanvasHitIndex, y: number, tolerance: number): PositionedNode[] {
+  const start = d3.bisector((n: PositionedNode) => n.y).left(index.leaves, y - tolerance);
+  const rows: PositionedNode[] = [];
+  for (let k = start; k < index.leaves.length && index.leaves[k].y <= y + tolerance; k++) rows.push(index.leaves[k]);
+  return rows;
+}
+function findLinkAt(index: CanvasHitIndex, x: number, y: number, tolerance: number): PositionedLink | null {
+  let best: PositionedLink | null = null;
+  let bestDistance = tolerance;
+  const consider = (link: PositionedLink, distance: number) => {
+    if (distance <= bestDistance) {
+      best = link;
+      bestDistance = distance;
+    }
+  };
+  const byY = d3.bisector((link: PositionedLink) => (link.target as PositionedNode).y).left(index.horizontal, y - tolerance);
+  for (let k = byY; k < index.horizontal.length; k++) {
+    const link = index.horizontal[k];
+    const { source, target } = link as Required<Pick<PositionedLink, "source" | "target">>;
+    if (target.y > y + tolerance) break;
+    if (x >= Math.min(source.x, target.x) - tolerance && x <= Math.max(source.x, target.x) + tolerance) consider(link, Math.abs(target.y - y));
+  }
+  const byX = d3.bisector((link: PositionedLink) => (link.source as PositionedNode).x).left(index.vertical, x - tolerance);
+  for (let k = byX; k < index.vertical.length; k++) {
+    const link = index.vertical[k];
+    const { source, target } = link as Required<Pick<PositionedLink, "source" | "target">>;
+    if (source.x > x + tolerance) break;
+    if (y >= Math.min(source.y, target.y) && y <= Math.max(source.y, target.y)) {
+      // Sibling edges share the parent's vertical line; pick the one whose child row is closest.
+      consider(link, Math.abs(source.x - x) + Math.abs(target.y - y) * 1e-6);
+    }
+  }
+  return best;
+}
+
+/** ---------- Level of detail ---------- */
+type CladeExtent = { minY: number; maxY: number; maxX: number };
+type ViewWindow = { x0: number; y0: number; x1: number; y1: number };
+type LevelOfDetail = {
+  // Every node drawn inside a temporary triangle, mapped to the clade root that stands for it.
+  hidden: Map<HierarchyNodeWithLayout, PositionedNode>;
+  clades: { node: PositionedNode; extent: CladeExtent }[];
+};
+// Layout nodes come parents first, so one reverse pass folds every subtree into its root.
+function computeCladeExtents(nodes: PositionedNode[]): Map<HierarchyNodeWithLayout, CladeExtent> {
+  const extents = new Map<HierarchyNodeWithLayout, CladeExtent>();
+  nodes.forEach((n) => extents.set(n.d, { minY: n.y, maxY: n.y, maxX: n.x }));
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const { d } = nodes[i];
+    const own = extents.get(d);
+    const parent = d.parent ? extents.get(d.parent as HierarchyNodeWithLayout) : undefined;
+    if (!own || !parent) continue;
+    parent.minY = Math.min(parent.minY, own.minY);
+    parent.maxY = Math.max(parent.maxY, own.maxY);
+    parent.maxX = Math.max(parent.maxX, own.maxX);
+  }
+  return extents;
+}
+// Takes the largest clades no taller than maxSpan (in layout units); the root always stays expanded.
+function computeLevelOfDetail(nodes: PositionedNode[], extents: Map<HierarchyNodeWithLayout, CladeExtent>, maxSpan: number): LevelOfDetail {
+  const hidden = new Map<HierarchyNodeWithLayout, PositionedNode>();
+  const owners = new Map<HierarchyNodeWithLayout, PositionedNode>();
+  const clades: LevelOfDetail["clades"] = [];
+  nodes.forEach((n) => {
+    const parent = n.d.parent as HierarchyNodeWithLayout | null;
+    const owner = parent ? (hidden.get(parent) ?? owners.get(parent)) : undefined;
+    if (owner) {
+      hidden.set(n.d, owner);
+      return;
+    }
+    const extent = extents.get(n.d);
+    if (!parent || !n.d.children?.length || !extent || extent.maxY - extent.minY > maxSpan) return;
+    owners.set(n.d, n);
+    clades.push({ node: n, extent });
+  });
+  return { hidden, clades };
+}
+function linkInWindow(link: PositionedLink, view: ViewWindow): boolean {
+  const { source, target } = link;
+  if (!source || !target) return false;
+  return Math.max(source.x, target.x) >= view.x0 && Math.min(source.x, target.x) <= view.x1
+    && Math.max(source.y, target.y) >= view.y0 && Math.min(source.y, target.y) <= view.y1;
 }
 
 /** ---------- Component ---------- */
 export default function TreeEditor(){
   const EXAMPLE="((A:0.1,B:0.2)95/0.98:0.3,(C:0.3,D:0.4)88/0.92:0.5);";
   const [rawText,setRawText]=useState(EXAMPLE);
-  const newickWarning = useMemo(()=>{
-    if(!rawText.trim()) return null;
-    let open=0, close=0;
-    for(const ch of rawText){
-      if(ch==="(") open++;
-      else if(ch===")") close++;
-    }
-    if(open===close) return null;
-    return `Parentheses mismatch in NEWICK string.\nFound ${open} "(" and ${close} ")".`;
-  },[rawText]);
+  const largeRawText = rawText.length > BACKGROUND_PARSE_THRESHOLD;
+  const inlineDiagnostics = useMemo(()=>largeRawText ? null : diagnoseNewickText(rawText),[rawText, largeRawText]);
+  const [backgroundDiagnostics,setBackgroundDiagnostics]=useState<{ text: string; diagnostics: NewickDiagnostic[] } | null>(null);
+  useEffect(()=>{
+    if(!largeRawText) return;
+    // Large texts are checked in the worker once typing pauses; stale results are dropped by comparing the text.
+    let cancelled = false;
+    const timer = window.setTimeout(()=>{
+      diagnoseNewickTextInBackground(rawText)
+        .then(diagnostics=>{ if(!cancelled) setBackgroundDiagnostics({ text: rawText, diagnostics }); })
+        .catch(()=>{ if(!cancelled) setBackgroundDiagnostics({ text: rawText, diagnostics: [] }); });
+    }, 300);
+    return ()=>{ cancelled = true; window.clearTimeout(timer); };
+  },[rawText, largeRawText]);
+  const newickDiagnostics = useMemo(()=>inlineDiagnostics
+    ?? (backgroundDiagnostics?.text === rawText ? backgroundDiagnostics.diagnostics : []),
+  [inlineDiagnostics, backgroundDiagnostics, rawText]);
+  const newickErrors = useMemo(()=>newickDiagnostics.filter(d=>d.severity==="error"),[newickDiagnostics]);
   const [tree,setTree]=useState<TreeNode>(()=>ensureIds(parseNewick(EXAMPLE)));
   const [lang,setLang]=useState<Locale>("en");
   const t = useCallback((key: string, fallback: string)=> UI_TEXT[lang]?.[key] ?? fallback,[lang]);
   const [historyStack, setHistoryStack] = useState<TreeNode[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
+  const [treeCollection, setTreeCollection] = useState<TreeCollectionEntry[]>([]);
+  const [activeTreeIndex, setActiveTreeIndex] = useState(0);
+  // Whether the file the active tree came from declared it rooted; exports use it unless told otherwise.
+  const [treeRooted, setTreeRooted] = useState<boolean | undefined>(undefined);
   const historyInitRef = useRef(false);
   const latestTreeRef = useRef(tree);
   useEffect(()=>{ latestTreeRef.current = tree; },[tree]);
@@ -673,7 +2900,12 @@ export default function TreeEditor(){
   const [showNodeLabels,setShowNodeLabels]=useState(false);
   const [showBranchLen,setShowBranchLen]=useState(false);
   const [showBootstrap,setShowBootstrap]=useState(false);
+  const [supportComponent,setSupportComponent]=useState(-1);
+  const [supportPrecision,setSupportPrecision]=useState(2);
+  const [supportScale,setSupportScale]=useState<SupportScale>("original");
+  const [supportThreshold,setSupportThreshold]=useState(0);
   const [showNodeDots,setShowNodeDots]=useState(false);
+  const [levelOfDetail,setLevelOfDetail]=useState(true);
   const [branchEditMode,setBranchEditMode]=useState(false);
   const [canvasOnlyMode,setCanvasOnlyMode]=useState(false);
   const [leftPaneRatio,setLeftPaneRatio]=useState(0.26);
@@ -681,6 +2913,19 @@ export default function TreeEditor(){
   const [containerWidth,setContainerWidth]=useState<number | null>(null);
   const layoutContainerRef = useRef<HTMLDivElement|null>(null);
   const leftPaneRef = useRef<HTMLDivElement|null>(null);
+  const [leafLabelTemplate,setLeafLabelTemplate]=useState("");
+  const [styleMappings,setStyleMappings]=useState<StyleMappings>({});
+  const [legendConfig,setLegendConfig]=useState<LegendConfig>(DEFAULT_LEGEND_CONFIG);
+  const [newickExportOptions,setNewickExportOptions]=useState<NewickExportOptions>(DEFAULT_NEWICK_EXPORT_OPTIONS);
+  const [metadataReport,setMetadataReport]=useState<MetadataBindReport | null>(null);
+  const [itolReport,setItolReport]=useState<ItolImportReport | null>(null);
+  const [archivePicker,setArchivePicker]=useState<{ archiveName: string; entries: TreeFileEntry[]; applyNewick: boolean } | null>(null);
+  const [fileDragActive,setFileDragActive]=useState(false);
+  // Progress of reading a large tree, then of laying it out; both run in the worker.
+  const [treeProgress,setTreeProgress]=useState<{ stage: "parse" | "layout"; fraction: number } | null>(null);
+  const parseRequestRef=useRef(0);
+  // Set while the drawn tree came from PhyloXML/NeXML, whose styling the NEWICK in the editor does not carry
+  const xmlImportActiveRef=useRef(false);
   const [leafNodeDotSize,setLeafNodeDotSize]=useState(2.5);
   const [internalNodeDotSize,setInternalNodeDotSize]=useState(3.5);
   const showNodeDotsEffective = showNodeDots || branchEditMode;
@@ -707,12 +2952,28 @@ export default function TreeEditor(){
   const [activeTab, setActiveTab] = useState<"data" | "selection" | "rendering" | "export">("data");
   const [searchPopoverOpen, setSearchPopoverOpen] = useState(false);
   const searchPopoverRef = useRef<HTMLDivElement | null>(null);
+  const [rootingPopoverOpen, setRootingPopoverOpen] = useState(false);
+  const rootingPopoverRef = useRef<HTMLDivElement | null>(null);
+  const [rootingReport,setRootingReport]=useState<(RootingReport & { clade: string; unchanged: boolean }) | null>(null);
+  const [outgroupText,setOutgroupText]=useState("");
+  const [childOrder,setChildOrder]=useState<ChildOrder>({ key: "size", descending: false });
+  const [polytomySupportInput,setPolytomySupportInput]=useState("");
+  const [polytomySupportComponent,setPolytomySupportComponent]=useState(0);
+  const [polytomyLengthInput,setPolytomyLengthInput]=useState("0.000001");
+  const [polytomyReport,setPolytomyReport]=useState<{ by: "support" | "length"; contracted: number } | null>(null);
+  const [prunePopoverOpen, setPrunePopoverOpen] = useState(false);
+  const prunePopoverRef = useRef<HTMLDivElement | null>(null);
+  const [pruneText,setPruneText]=useState("");
+  const [pruneMode,setPruneMode]=useState<"remove" | "keep">("remove");
+  const [pruneReport,setPruneReport]=useState<{ removed: number; remaining: number; missing: string[] } | null>(null);
   const selectionMenuRef = useRef<HTMLDivElement | null>(null);
   const miniWindowMouseDownInsideRef = useRef(false);
   const [paneDimensions, setPaneDimensions] = useState({ w: 1200, h: 600 });
   const [autoLayoutVersion, setAutoLayoutVersion] = useState(0);
   const textMeasureCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const textWidthCacheRef = useRef<Map<string, number>>(new Map());
   const newickTextareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const rawTextareaRef = useRef<HTMLTextAreaElement | null>(null);
   const branchLengthPrecisionSafe = useMemo(()=>Math.min(6, Math.max(0, Math.round(branchLengthPrecision))),[branchLengthPrecision]);
   const menuDragHandlers = useRef<{ move: (ev: MouseEvent)=>void; up: (ev?: MouseEvent)=>void } | null>(null);
   const [newickCopyState,setNewickCopyState]=useState<"idle"|"copied"|"error">("idle");
@@ -722,6 +2983,11 @@ export default function TreeEditor(){
   const tipCount = useMemo(()=>collectTips(tree).length, [tree]);
   const currentNewick = useMemo(()=>toNewick(tree, { includeLengths: layout!=="cladogram" }),[tree, layout]);
   const [currentNewickEditable,setCurrentNewickEditable]=useState(currentNewick);
+  // What the Export tab previews, copies and downloads; cladograms never carry lengths.
+  const exportNewick = useMemo(()=>toNewick(tree, {
+    ...newickExportOptions,
+    includeLengths: newickExportOptions.includeLengths && layout!=="cladogram"
+  }),[tree, layout, newickExportOptions]);
   useEffect(()=>{ setCurrentNewickEditable(currentNewick); },[currentNewick]);
   const scaleBarPlacement = useMemo(()=>{
     const [vertical, horizontal] = scaleBarLabelPosition.split("-") as ["top" | "bottom", "start" | "center" | "end"];
@@ -798,7 +3064,7 @@ export default function TreeEditor(){
     let branchCount=0;
     let totalLength=0;
     let maxDepth=0;
-    const traverse=(node: TreeNode, depth: number)=>{
+    forEachNode(tree, (node, _parent, depth)=>{
       maxDepth=Math.max(maxDepth, depth);
       const children=node.children??[];
       if(children.length){
@@ -808,11 +3074,9 @@ export default function TreeEditor(){
           if(typeof child.length==="number" && Number.isFinite(child.length)){
             totalLength+=child.length;
           }
-          traverse(child, depth+1);
         });
       }
-    };
-    traverse(tree,0);
+    });
     return {
       tips: tipCount,
       internalNodes,
@@ -837,7 +3101,7 @@ export default function TreeEditor(){
     };
     try{
       if(typeof navigator !== "undefined" && navigator.clipboard?.writeText){
-        await navigator.clipboard.writeText(currentNewick);
+        await navigator.clipboard.writeText(exportNewick);
         setNewickCopyState("copied");
         return;
       }
@@ -853,7 +3117,61 @@ export default function TreeEditor(){
         setNewickCopyState("error");
       }
     }
-  },[currentNewick]);
+  },[exportNewick]);
+  const metadataColumns = useMemo(()=>collectMetadataColumns(tree),[tree]);
+  const mappedStyles = useMemo(()=>computeMappedStyles(tree, styleMappings),[tree, styleMappings]);
+  const styleMappingDetails = useMemo(()=>{
+    const details: Partial<Record<StyleChannel, { values: string[]; numeric: boolean; scale: (value: string)=>string | undefined }>> = {};
+    STYLE_CHANNELS.forEach(channel=>{
+      const mapping = styleMappings[channel];
+      if(!mapping) return;
+      const values = collectMetadataValues(tree, mapping.column);
+      details[channel] = { values, numeric: isNumericValues(values), scale: buildStyleScale(channel, mapping, values) };
+    });
+    return details;
+  },[tree, styleMappings]);
+  const styleChannelLabel = useCallback((channel: StyleChannel)=>{
+    switch(channel){
+      case "labelColor": return t("styleLabelColor","Label color");
+      case "edgeColor": return t("styleEdgeColor","Branch color");
+      case "tipColor": return t("styleTipColor","Tip dot color");
+      case "tipShape": return t("styleTipShape","Tip dot shape");
+      case "labelBold": return t("styleLabelBold","Bold labels");
+      default: return channel;
+    }
+  },[t]);
+  const tipShapeLabel = useCallback((shape: TipShape)=>{
+    switch(shape){
+      case "circle": return t("shapeCircle","Circle");
+      case "square": return t("shapeSquare","Square");
+      case "triangle": return t("shapeTriangle","Triangle");
+      case "diamond": return t("shapeDiamond","Diamond");
+      case "cross": return t("shapeCross","Cross");
+      case "star": return t("shapeStar","Star");
+      default: return shape;
+    }
+  },[t]);
+  const updateStyleMapping = useCallback((channel: StyleChannel, next: StyleMapping | null)=>{
+    setStyleMappings(prev=>{
+      const updated = { ...prev };
+      if(next) updated[channel] = next;
+      else delete updated[channel];
+      return updated;
+    });
+  },[]);
+  const supportPercentScale = useMemo(()=>detectSupportPercentScale(tree),[tree]);
+  const supportComponentCount = useMemo(()=>{
+    let max = 0;
+    forEachNode(tree, n=>{ max = Math.max(max, n.__supports?.length ?? 0); });
+    return max;
+  },[tree]);
+  const supportLabelOptions = useMemo(()=>({
+    component: supportComponent,
+    precision: Math.min(6, Math.max(0, Math.round(supportPrecision))),
+    scale: supportScale,
+    threshold: supportThreshold,
+    percentScale: supportPercentScale
+  }),[supportComponent, supportPrecision, supportScale, supportThreshold, supportPercentScale]);
   const tipCountsById = useMemo<Map<number, number>>(()=>{
     const map = new Map<number, number>();
     mapTipCounts(tree, map);
@@ -865,23 +3183,20 @@ export default function TreeEditor(){
     return map;
   },[tree]);
   const displayTree = useMemo<TreeNode>(()=> {
-    function cloneNode(n: TreeNode): TreeNode {
+    const copies = new Map<TreeNode, TreeNode>();
+    forEachNode(tree, (n, parent)=>{
       const copy: TreeNode = { ...n };
+      delete copy.children;
+      copies.set(n, copy);
+      const parentCopy = parent ? copies.get(parent) : undefined;
+      if(parentCopy) (parentCopy.children ??= []).push(copy);
       if(n.__collapsed && n.children?.length){
-        const tipTotal = n.__id !== undefined ? tipCountsById.get(n.__id) : undefined;
-        copy.__collapsedTipCount = tipTotal;
+        copy.__collapsedTipCount = n.__id !== undefined ? tipCountsById.get(n.__id) : undefined;
         copy.__isCollapsedPlaceholder = true;
-        delete copy.children;
-        return copy;
-      }
-      if(n.children?.length){
-        copy.children = n.children.map(child=>cloneNode(child));
-      }else if(copy.children){
-        delete copy.children;
+        return false;
       }
-      return copy;
-    }
-    return cloneNode(tree);
+    });
+    return copies.get(tree) as TreeNode;
   },[tree, tipCountsById]);
 
   const measureLabelWidth = useCallback((text: string, fontSize: number, italicFlag: boolean)=>{
@@ -890,9 +3205,17 @@ export default function TreeEditor(){
     }
     const ctx=textMeasureCanvasRef.current.getContext("2d");
     if(!ctx) return text.length * fontSize * 0.6;
-    ctx.font=`${italicFlag?"italic":"normal"} ${fontSize}px system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif`;
-    const metrics=ctx.measureText(text);
-    return metrics.width;
+    // Layout, label culling and hit testing measure the same labels over and over.
+    const font=`${italicFlag?"italic":"normal"} ${fontSize}px ${LABEL_FONT_STACK}`;
+    const cacheKey=`${font}\u0000${text}`;
+    const cache=textWidthCacheRef.current;
+    const cached=cache.get(cacheKey);
+    if(cached !== undefined) return cached;
+    if(cache.size > 200_000) cache.clear();
+    ctx.font=font;
+    const width=ctx.measureText(text).width;
+    cache.set(cacheKey, width);
+    return width;
   },[]);
 
   const IconAddLeaf = () => (
@@ -1025,6 +3348,20 @@ export default function TreeEditor(){
   const [pngScale, setPngScale] = useState(3); // crisp 3x default
 
   const svgRef=useRef<SVGSVGElement|null>(null); const gRef=useRef<SVGGElement|null>(null); const rightPaneRef=useRef<HTMLDivElement|null>(null); const zoomRef=useRef<d3.ZoomBehavior<SVGSVGElement, unknown>|null>(null);
+  const canvasRef=useRef<HTMLCanvasElement|null>(null);
+  const canvasDrawRef=useRef<()=>void>(()=>{});
+  const canvasFrameRef=useRef<number|null>(null);
+  const canvasMode = tipCount > CANVAS_RENDER_TIP_THRESHOLD;
+  const [svgExportPass,setSvgExportPass]=useState(false);
+  const renderSvgTree = !canvasMode || svgExportPass;
+  // Coalesces redraws to one per animation frame; pans do not re-render React, so they draw through here.
+  const requestCanvasDraw = useCallback(()=>{
+    if(canvasFrameRef.current !== null) return;
+    canvasFrameRef.current = window.requestAnimationFrame(()=>{
+      canvasFrameRef.current = null;
+      canvasDrawRef.current();
+    });
+  },[]);
   const zoomTransformRef = useRef<d3.ZoomTransform>(d3.zoomIdentity);
   const pendingZoomAnchorRef = useRef<{
     transform: d3.ZoomTransform;
@@ -1040,6 +3377,39 @@ export default function TreeEditor(){
   const baseTranslateX = 80;
   const baseTranslateY = 40;
   const treeViewYOffset = 1;
+  // Visible part of the drawing in layout coordinates: the svg box clipped to the scrolling pane.
+  const visibleLayoutWindow = useCallback((): ViewWindow | null=>{
+    const svgNode = svgRef.current;
+    if(!svgNode) return null;
+    const svgRect = svgNode.getBoundingClientRect();
+    const paneRect = rightPaneRef.current?.getBoundingClientRect() ?? svgRect;
+    const transform = zoomTransformRef.current ?? d3.zoomIdentity;
+    const k = transform.k || 1;
+    const originX = svgRect.left + svgNode.clientLeft + transform.x + baseTranslateX;
+    const originY = svgRect.top + svgNode.clientTop + transform.y + baseTranslateY;
+    return {
+      x0: (Math.max(svgRect.left, paneRect.left) - originX) / k,
+      x1: (Math.min(svgRect.right, paneRect.right) - originX) / k,
+      y0: (Math.max(svgRect.top, paneRect.top) - originY) / k,
+      y1: (Math.min(svgRect.bottom, paneRect.bottom) - originY) / k,
+    };
+  },[baseTranslateX, baseTranslateY]);
+  // The SVG tree is culled to a padded window and only re-rendered once the view leaves it.
+  const [cullWindow,setCullWindow]=useState<ViewWindow | null>(null);
+  const cullWindowRef = useRef<ViewWindow | null>(null);
+  const updateCullWindow = useCallback(()=>{
+    if(canvasMode || !levelOfDetail) return;
+    const view = visibleLayoutWindow();
+    if(!view) return;
+    const width = Math.max(1, view.x1 - view.x0);
+    const height = Math.max(1, view.y1 - view.y0);
+    const current = cullWindowRef.current;
+    if(current && current.x0 <= view.x0 && current.y0 <= view.y0 && current.x1 >= view.x1 && current.y1 >= view.y1
+      && current.x1 - current.x0 <= width * 3 && current.y1 - current.y0 <= height * 3) return;
+    const next = { x0: view.x0 - width / 2, x1: view.x1 + width / 2, y0: view.y0 - height / 2, y1: view.y1 + height / 2 };
+    cullWindowRef.current = next;
+    setCullWindow(next);
+  },[canvasMode, levelOfDetail, visibleLayoutWindow]);
 
   const refreshPaneDimensions = useCallback(()=>{
     const pane = rightPaneRef.current;
@@ -1061,20 +3431,19 @@ export default function TreeEditor(){
   useEffect(()=>{
     if(historyInitRef.current) return;
     historyInitRef.current = true;
-    setHistoryStack([clone(tree)]);
+    setHistoryStack([tree]);
     setHistoryIndex(0);
   // eslint-disable-next-line react-hooks/exhaustive-deps
   },[]);
   const longestLabelWidthPx = useMemo(()=>{
-    const root = d3.hierarchy<TreeNode>(displayTree);
     let max = 0;
-    root.leaves().forEach(leaf=>{
-      const name = leaf.data.name || "Unnamed";
+    collectTips(displayTree).forEach(leaf=>{
+      const name = formatLeafLabel(leaf, leafLabelTemplate);
       const widthPx = measureLabelWidth(name, leafLabelSize, italic);
       if(widthPx > max) max = widthPx;
     });
     return max;
-  },[displayTree, leafLabelSize, italic, measureLabelWidth]);
+  },[displayTree, leafLabelSize, italic, measureLabelWidth, leafLabelTemplate]);
   const getCollapsedTriangleMetrics = useCallback((tipTotal?: number)=>{
     const safeCount = Number.isFinite(tipTotal) && tipTotal ? Math.max(1, Number(tipTotal)) : 1;
     const maxHeight = Math.max(leafLabelSize + 6, Math.min(Math.max(leafLabelSize * 1.5, 18), yGap * 0.8));
@@ -1092,19 +3461,17 @@ export default function TreeEditor(){
     const labelReserve = Math.max(140, longestLabelWidthPx + Math.max(12, leafLabelOffsetX) + 60);
     const branchSpace = Math.max(200, Math.floor(usableCanvasWidth - labelReserve));
 
-    const root = d3.hierarchy<TreeNode>(displayTree);
+    const root = buildHierarchy(displayTree);
     let maxAccumLen = 0;
     let minPositiveLen = Number.POSITIVE_INFINITY;
-    (function walk(node: d3.HierarchyNode<TreeNode>, acc = 0){
+    const accumulated = new Map<d3.HierarchyNode<TreeNode>, number>();
+    root.eachBefore(node=>{
       const increment = Number.isFinite(node.data.length) ? Number(node.data.length) : 0;
       if(increment > 1e-12 && increment < minPositiveLen) minPositiveLen = increment;
-      const next = acc + increment;
-      if(!node.children?.length){
-        if(next > maxAccumLen) maxAccumLen = next;
-      }else{
-        node.children.forEach(child=>walk(child, next));
-      }
-    })(root, 0);
+      const next = (node.parent ? accumulated.get(node.parent) ?? 0 : 0) + increment;
+      accumulated.set(node, next);
+      if(!node.children?.length && next > maxAccumLen) maxAccumLen = next;
+    });
 
     const maxDepth = d3.max(root.descendants().map(d=>d.depth)) ?? 1;
     const leaves = Math.max(1, tipCount);
@@ -1146,12 +3513,13 @@ export default function TreeEditor(){
       userSetYGapRef.current = false;
       setAutoLayoutVersion((v)=>v+1);
     }
-    const snapshot = clone(nextTree);
-    setTree(snapshot);
+    // Committed trees are treated as immutable, so history entries share unchanged subtrees.
+    latestTreeRef.current = nextTree;
+    setTree(nextTree);
     if(!options?.skipHistory){
       setHistoryStack(prev=>{
         const trimmed = historyIndex >= 0 ? prev.slice(0, historyIndex + 1) : [];
-        trimmed.push(snapshot);
+        trimmed.push(nextTree);
         const limited = trimmed.length > HISTORY_LIMIT ? trimmed.slice(trimmed.length - HISTORY_LIMIT) : trimmed;
         setHistoryIndex(limited.length - 1);
         return limited;
@@ -1159,10 +3527,13 @@ export default function TreeEditor(){
     }
   },[historyIndex]);
 
-  const mutateTree = useCallback((mutator: (draft: TreeNode)=>void, options?: { skipHistory?: boolean })=>{
-    const draft = clone(latestTreeRef.current);
-    mutator(draft);
-    commitTree(draft, { preserveZoom: true, skipHistory: options?.skipHistory ?? false });
+  // Edits a few nodes by id without copying the rest of the tree; returns false when none was found.
+  const editNodes = useCallback((ids: Iterable<number>, edit: (writable: Map<number, TreeNode>)=>void, options?: { skipHistory?: boolean })=>{
+    const current = latestTreeRef.current;
+    const next = editTree(current, ids, edit);
+    if(next === current) return false;
+    commitTree(next, { preserveZoom: true, skipHistory: options?.skipHistory ?? false });
+    return true;
   },[commitTree]);
 
   useEffect(()=>{
@@ -1174,75 +3545,58 @@ export default function TreeEditor(){
     if(!fromQuery) return;
     const decoded = fromQuery.replace(/\+/g, " ");
     setRawText(decoded);
+    setActiveTab("data");
     try{
       const parsed = ensureIds(parseNewick(decoded));
       commitTree(parsed);
-      setActiveTab("data");
     }catch(err){
-      const message = err instanceof Error ? err.message : String(err);
+      // The Data tab shows the diagnostics for the decoded text inline
       console.warn("Failed to parse NEWICK from query parameter", err);
-      alert("Failed to parse NEWICK from URL parameter: " + message);
     }
   },[commitTree, setActiveTab, setRawText]);
 
 
-  // Layout computation
-  const { nodes, links, totalLength, xExtent, yExtent } = useMemo<LayoutSnapshot>(()=>{
-    const root=d3.hierarchy<TreeNode>(displayTree) as HierarchyNodeWithLayout;
-    let idx=0; const yMap=new Map<d3.HierarchyNode<TreeNode>, number>();
-    (function post(d: d3.HierarchyNode<TreeNode>){
-      if(!d.children?.length){ yMap.set(d, idx++ * yGap); return; }
-      d.children.forEach(post);
-      const childValues = d.children.map(c=>yMap.get(c) ?? 0);
-      yMap.set(d, d3.mean(childValues) ?? 0);
-    })(root);
-
-    let maxDepth=0; root.each(d=>{ if(!d.children) maxDepth=Math.max(maxDepth,d.depth); });
-    const heightMap = new Map<HierarchyNodeWithLayout, number>();
-    (function computeHeight(d: HierarchyNodeWithLayout): number{
-      if(!d.children?.length){
-        heightMap.set(d, 1); // leaf height inclusive
-        return 1;
-      }
-      const childHeights = d.children.map(ch=>computeHeight(ch as HierarchyNodeWithLayout));
-      const h = Math.max(...childHeights) + 1;
-      heightMap.set(d, h);
-      return h;
-    })(root);
-
-    if(layout==='phylogram'){
-      (function assignXPhylo(d: HierarchyNodeWithLayout){
-        let baseX = 0;
-        if(!d.parent) baseX = 0;
-        else{
-          baseX = (d.parent._x ?? 0) + (Number.isFinite(d.data.length)?Number(d.data.length):0);
-        }
-        d._x = baseX;
-        d.children?.forEach(child=>assignXPhylo(child as HierarchyNodeWithLayout));
-      })(root);
+  // Layout computation. Large trees are laid out in the worker, and the previous layout stays on screen until it
+  // answers; the positions are then attached to a d3 hierarchy here, which every view, hit test and edit reads.
+  const layoutInput = useMemo(()=>toTreeLayoutInput(displayTree),[displayTree]);
+  const layoutInBackground = layoutInput.nodes.length > BACKGROUND_LAYOUT_THRESHOLD;
+  const [backgroundLayout,setBackgroundLayout]=useState<{ input: TreeLayoutInput; layout: LayoutMode; yGap: number; positions: TreeLayoutPositions } | null>(null);
+  const layoutRequestRef = useRef(0);
+  useEffect(()=>{
+    if(!layoutInBackground) return;
+    const request = ++layoutRequestRef.current;
+    const { input } = layoutInput;
+    const showProgress = (fraction: number)=>setTreeProgress(progress=> progress?.stage === "parse" ? progress : { stage: "layout", fraction });
+    showProgress(0);
+    computeTreeLayoutInBackground(input, layout, yGap, fraction=>{
+      if(layoutRequestRef.current === request) showProgress(fraction);
+    }).then(positions=>{
+      if(layoutRequestRef.current === request) setBackgroundLayout({ input, layout, yGap, positions });
+    }, err=>{
+      console.warn("Failed to lay out tree", err);
+    }).finally(()=>{
+      if(layoutRequestRef.current === request) setTreeProgress(progress=> progress?.stage === "layout" ? null : progress);
+    });
+  },[layoutInBackground, layoutInput, layout, yGap]);
+  const layoutSnapshotRef = useRef<LayoutSnapshot>(EMPTY_LAYOUT);
+  const layoutSnapshot = useMemo<LayoutSnapshot>(()=>{
+    const { nodes: order, input } = layoutInput;
+    let positions: TreeLayoutPositions;
+    if(!layoutInBackground){
+      positions = computeTreeLayout(input, layout === "phylogram", yGap);
+    }else if(backgroundLayout?.input === input && backgroundLayout.layout === layout && backgroundLayout.yGap === yGap){
+      positions = backgroundLayout.positions;
     }else{
-      const placeClado = (node: HierarchyNodeWithLayout, budget: number)=>{
-        const offset = typeof node.data.__cladoOffset === "number" && Number.isFinite(node.data.__cladoOffset) ? node.data.__cladoOffset as number : 0;
-        node._x = (node._x ?? 0) + offset;
-        node.children?.forEach(child=>{
-          const h = Math.max(1, heightMap.get(child as HierarchyNodeWithLayout) ?? 1);
-          const edgeLen = budget / h;
-          const baseX = (node._x ?? 0) + edgeLen;
-          const childOffset = typeof child.data.__cladoOffset === "number" && Number.isFinite(child.data.__cladoOffset) ? child.data.__cladoOffset as number : 0;
-          (child as HierarchyNodeWithLayout)._x = baseX + childOffset;
-          placeClado(child as HierarchyNodeWithLayout, Math.max(0, budget - edgeLen));
-        });
-      };
-      root._x = 0;
-      placeClado(root, 1);
+      return layoutSnapshotRef.current;
     }
-
-    const xMaxRaw=d3.max(root.descendants().map(d=>(d as HierarchyNodeWithLayout)._x ?? 0));
+    const preorderIndex = new Map<TreeNode, number>(order.map((node, k)=>[node, k]));
+    const root=buildHierarchy(displayTree) as HierarchyNodeWithLayout;
+    const xMaxRaw=d3.max(positions.x);
     const xMax=(Number.isFinite(xMaxRaw) && (xMaxRaw ?? 0) > 0) ? (xMaxRaw as number) : 1;
     const xScale=d3.scaleLinear().domain([0, xMax]).range([0, xScaleWidth]);
     const nodes: PositionedNode[]=root.descendants().map(d=>{
-      const layoutNode=d as HierarchyNodeWithLayout;
-      return { x:xScale(layoutNode._x ?? 0), y:yMap.get(d) ?? 0, d:layoutNode };
+      const k = preorderIndex.get(d.data) as number;
+      return { x:xScale(positions.x[k]), y:positions.y[k], d:d as HierarchyNodeWithLayout };
     });
     const nodeMap=new Map<HierarchyNodeWithLayout, PositionedNode>(nodes.map(n=>[n.d,n]));
     const links: PositionedLink[]=root.links().map(l=>({
@@ -1257,18 +3611,48 @@ export default function TreeEditor(){
       if(n.d.children?.length) return Math.max(max, n.x);
       const isCollapsed = Boolean(n.d.data.__isCollapsedPlaceholder);
       const collapsedMetrics = isCollapsed ? getCollapsedTriangleMetrics(n.d.data.__collapsedTipCount) : null;
-      const trimmed = (n.d.data.name ?? "").toString().trim();
       const collapsedCount = typeof n.d.data.__collapsedTipCount === "number" ? n.d.data.__collapsedTipCount : 0;
-      const labelText = isCollapsed ? `(${collapsedCount})` : (trimmed || "Unnamed");
+      const labelText = isCollapsed ? `(${collapsedCount})` : formatLeafLabel(n.d.data, leafLabelTemplate);
       const offset = (collapsedMetrics?.width ?? 0) + labelPad;
       const approx = measureLabelWidth(labelText, leafLabelSize, !isCollapsed && italic) + offset;
       return Math.max(max, n.x + approx);
-    }, Math.max(...xs, 0));
-    const xExtent:[number,number]=[Math.min(...xs,0), Math.max(labelAdjustedMax,0)];
-    const yExtent:[number,number]=[Math.min(...ys,0), Math.max(...ys,0)];
+    }, Math.max(d3.max(xs) ?? 0, 0));
+    const xExtent:[number,number]=[Math.min(d3.min(xs) ?? 0,0), Math.max(labelAdjustedMax,0)];
+    const yExtent:[number,number]=[Math.min(d3.min(ys) ?? 0,0), Math.max(d3.max(ys) ?? 0,0)];
     return { nodes, links, totalLength: xMax, xExtent, yExtent };
-  },[displayTree, layout, yGap, xScaleWidth, leafLabelSize, leafLabelOffsetX, italic, measureLabelWidth, getCollapsedTriangleMetrics]);
+  },[layoutInput, layoutInBackground, backgroundLayout, displayTree, layout, yGap, xScaleWidth, leafLabelSize, leafLabelOffsetX, italic, measureLabelWidth, getCollapsedTriangleMetrics, leafLabelTemplate]);
+  useEffect(()=>{ layoutSnapshotRef.current = layoutSnapshot; },[layoutSnapshot]);
+  const { nodes, links, totalLength, xExtent, yExtent } = layoutSnapshot;
 
+  // Level of detail: applied to what is on screen, never to exports.
+  const lodActive = levelOfDetail && !svgExportPass;
+  // Zoom rounded to quarter steps of a power of two, so the clade cut is not redone on every wheel tick.
+  const lodZoom = 2 ** (Math.round(Math.log2(zoomK || 1) * 4) / 4);
+  const leafLabelsVisible = !lodActive || yGap * lodZoom >= LOD_MIN_LABEL_SPACING_PX;
+  const cladeExtents = useMemo(()=> levelOfDetail ? computeCladeExtents(nodes) : null,[levelOfDetail, nodes]);
+  const levelOfDetailView = useMemo(()=>{
+    if(!lodActive || !cladeExtents || yGap * lodZoom >= LOD_CLADE_HEIGHT_PX) return null;
+    return computeLevelOfDetail(nodes, cladeExtents, LOD_CLADE_HEIGHT_PX / lodZoom);
+  },[lodActive, cladeExtents, nodes, yGap, lodZoom]);
+  // How far leaf labels, collapsed triangles and edge labels can reach past their node.
+  const cullPadX = longestLabelWidthPx + Math.max(0, leafLabelOffsetX) + 200;
+  const cullPadY = Math.max(yGap, leafLabelSize, nodeLabelSize, branchLabelSize, supportLabelSize) * 2;
+  const svgNodes = useMemo(()=>{
+    if(!renderSvgTree) return [];
+    if(!lodActive) return nodes;
+    const hidden = levelOfDetailView?.hidden;
+    const view = cullWindow;
+    return nodes.filter(n=>!hidden?.has(n.d) && (!view || (
+      n.x - cullPadX <= view.x1 && n.x + cullPadX >= view.x0 && n.y - cullPadY <= view.y1 && n.y + cullPadY >= view.y0
+    )));
+  },[renderSvgTree, lodActive, nodes, levelOfDetailView, cullWindow, cullPadX, cullPadY]);
+  const svgLinks = useMemo(()=>{
+    if(!renderSvgTree) return [];
+    if(!lodActive) return links;
+    const hidden = levelOfDetailView?.hidden;
+    const view = cullWindow && { x0: cullWindow.x0 - cullPadX, x1: cullWindow.x1 + cullPadX, y0: cullWindow.y0 - cullPadY, y1: cullWindow.y1 + cullPadY };
+    return links.filter(link=>!(link.target && hidden?.has(link.target.d)) && (!view || linkInWindow(link, view)));
+  },[renderSvgTree, lodActive, links, levelOfDetailView, cullWindow, cullPadX, cullPadY]);
   const nodePositionsById = useMemo(()=>{
     const map = new Map<number, { x: number; y: number }>();
     nodes.forEach(n=>{
@@ -1364,13 +3748,13 @@ export default function TreeEditor(){
   const [selection,setSelection]=useState<SelectionState | null>(null);
   const [multiSelection,setMultiSelection]=useState<SelectionState[]>([]);
   const [menu,setMenu]=useState<ContextMenuState>({visible:false,left:0,top:0});
-  const [collapsedHover,setCollapsedHover]=useState<TooltipState>({visible:false,left:0,top:0,text:""});
+  const hoverTooltipRef = useRef<HoverTooltipHandle | null>(null);
 
   const updateCladoOffset = useCallback((nodeId: number, nextOffset: number, options?: { skipHistory?: boolean })=>{
     const domain = Math.max(1, cladogramDomainRef.current);
     const limited = Math.max(-domain * 2, Math.min(domain * 2, nextOffset));
-    mutateTree(root=>{
-      const target = findById(root, nodeId);
+    editNodes([nodeId], writable=>{
+      const target = writable.get(nodeId);
       if(!target) return;
       if(Math.abs(limited) < 1e-4){
         delete target.__cladoOffset;
@@ -1378,23 +3762,23 @@ export default function TreeEditor(){
         target.__cladoOffset = limited;
       }
     }, { skipHistory: options?.skipHistory ?? false });
-  },[mutateTree]);
+  },[editNodes]);
   const updateBranchLengthValue = useCallback((nodeId: number, nextLength: number, options?: { skipHistory?: boolean })=>{
-    mutateTree(root=>{
-      const target = findById(root, nodeId);
+    if(!getTreeIndex(latestTreeRef.current).parents.get(nodeId)) return;
+    editNodes([nodeId], writable=>{
+      const target = writable.get(nodeId);
       if(!target) return;
-      const parent = parentOf(root, nodeId);
-      if(!parent) return;
       const safeLength = Math.max(0, Number.isFinite(nextLength) ? nextLength : 0);
       target.length = safeLength;
     }, { skipHistory: options?.skipHistory ?? false });
-  },[mutateTree]);
+  },[editNodes]);
 
+  const treeIndex = useMemo(()=>getTreeIndex(tree),[tree]);
   const selectedBranchNode = useMemo<TreeNode | null>(()=>{
     if(!selection) return null;
     const targetId = selection.type === 'link' ? selection.childId : selection.id;
-    return targetId ? findById(tree, targetId) : null;
-  },[selection, tree]);
+    return targetId ? treeIndex.nodes.get(targetId) ?? null : null;
+  },[selection, treeIndex]);
   const makeSelectionKey = useCallback((sel: SelectionState)=>{
     return sel.type==='node' ? nodeSelectionKey(sel.id) : linkSelectionKey(sel.parentId, sel.childId);
   },[]);
@@ -1456,14 +3840,14 @@ export default function TreeEditor(){
     if(historyIndex <= 0) return;
     const target = historyStack[historyIndex - 1];
     setHistoryIndex(historyIndex - 1);
-    commitTree(clone(target), { preserveZoom: true, skipHistory: true });
+    commitTree(target, { preserveZoom: true, skipHistory: true });
   },[historyIndex, historyStack, commitTree]);
 
   const handleRedo = useCallback(()=>{
     if(historyIndex < 0 || historyIndex >= historyStack.length - 1) return;
     const target = historyStack[historyIndex + 1];
     setHistoryIndex(historyIndex + 1);
-    commitTree(clone(target), { preserveZoom: true, skipHistory: true });
+    commitTree(target, { preserveZoom: true, skipHistory: true });
   },[historyIndex, historyStack, commitTree]);
 
   const hideContextMenu = useCallback(()=>{
@@ -1474,7 +3858,7 @@ export default function TreeEditor(){
     setSelection(null);
     setMultiSelection([]);
     hideContextMenu();
-    setCollapsedHover(prev=> prev.visible ? { ...prev, visible:false } : prev);
+    hoverTooltipRef.current?.hide();
   },[hideContextMenu]);
 
   const handleCanvasBackgroundClick = useCallback((e: React.MouseEvent<HTMLDivElement>)=>{
@@ -1511,16 +3895,18 @@ export default function TreeEditor(){
       g.attr("transform", `translate(${ev.transform.x + baseTranslateX},${ev.transform.y + baseTranslateY}) scale(${ev.transform.k})`);
       zoomTransformRef.current = ev.transform;
       setZoomK(ev.transform.k||1);
+      requestCanvasDraw();
+      updateCullWindow();
     };
     const zoom=d3.zoom<SVGSVGElement, unknown>()
-      .filter((ev)=>!branchEditMode && (!ev.button || ev.button===0))
+      .filter((ev)=>!branchEditMode && (!ev.button || ev.button===0) && !(ev.target as Element | null)?.closest?.("[data-legend]"))
       .on("zoom", onZoom);
     zoomRef.current=zoom;
     svg.call(zoom);
     return ()=>{
       svg.on(".zoom", null);
     };
-  },[baseTranslateX, baseTranslateY, branchEditMode, canvasOnlyMode]);
+  },[baseTranslateX, baseTranslateY, branchEditMode, canvasOnlyMode, requestCanvasDraw, updateCullWindow]);
 
   // Observe right pane size (used for manual resets)
 
@@ -1528,8 +3914,13 @@ export default function TreeEditor(){
   const svgHeight = useMemo(()=>{
     const tipDriven = Math.max(800, Math.round(yGap * (tipCount + 4)));
     const paneDriven = Math.max(520, Math.round(paneDimensions.h * 1.25));
+    // A canvas cannot grow to the height of tens of thousands of rows; large trees are navigated by zooming.
+    if(canvasMode) return paneDriven;
     return Math.max(tipDriven, paneDriven);
-  },[paneDimensions.h, tipCount, yGap]);
+  },[paneDimensions.h, tipCount, yGap, canvasMode]);
+  useEffect(()=>{
+    updateCullWindow();
+  },[updateCullWindow, svgHeight, paneDimensions]);
 
   // Auto-fit on first render and when core layout knobs change
   const fitToViewport = useCallback(()=>{
@@ -1810,6 +4201,71 @@ export default function TreeEditor(){
     requestAnimationFrame(fitToViewport);
   };
 
+  // Legend: built from the attribute mappings, positioned in tree coordinates so it pans and exports with the tree
+  const legendSections = useMemo(()=>buildLegendSections(tree, styleMappings, legendConfig),[tree, styleMappings, legendConfig]);
+  const legendLayout = useMemo(()=>{
+    const visibleSections = legendSections.filter(section=>!legendConfig.hidden.includes(section.id) && (section.items.length || section.gradient));
+    if(!legendConfig.visible || !visibleSections.length) return null;
+    const fontSize = legendConfig.fontSize;
+    const rowHeight = Math.round(fontSize * 1.6);
+    const swatch = Math.round(fontSize * 0.9);
+    const pad = 10;
+    let width = 0;
+    let y = pad;
+    const sections = visibleSections.map(section=>{
+      const titleY = y + fontSize;
+      width = Math.max(width, measureLabelWidth(section.title, fontSize, false) + fontSize);
+      y += rowHeight;
+      const rows = section.items.map(item=>{
+        const rowY = y + rowHeight / 2;
+        width = Math.max(width, swatch + 8 + measureLabelWidth(item.label, fontSize, false));
+        y += rowHeight;
+        return { item, y: rowY };
+      });
+      let gradientY: number | null = null;
+      if(section.gradient){
+        gradientY = y;
+        width = Math.max(width, 120);
+        y += rowHeight * 2;
+      }
+      y += Math.round(rowHeight / 3);
+      return { section, titleY, rows, gradientY };
+    });
+    const position = legendConfig.position ?? { x: xExtent[1] + 24, y: yExtent[0] };
+    return { sections, width: width + pad * 2, height: y + pad / 2, pad, fontSize, rowHeight, swatch, position };
+  },[legendSections, legendConfig, measureLabelWidth, xExtent, yExtent]);
+  const updateLegendConfig = useCallback((patch: Partial<LegendConfig>)=>{
+    setLegendConfig(prev=>({ ...prev, ...patch }));
+  },[]);
+  const updateNewickExportOptions = useCallback((patch: Partial<NewickExportOptions>)=>{
+    setNewickExportOptions(prev=>({ ...prev, ...patch }));
+  },[]);
+  const handleLegendMouseDown = useCallback((e: React.MouseEvent<SVGGElement>)=>{
+    if(e.button !== 0 || !legendLayout) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const start = { clientX: e.clientX, clientY: e.clientY, ...legendLayout.position };
+    const scale = zoomTransformRef.current?.k || 1;
+    const handleMove = (ev: MouseEvent)=>{
+      const x = start.x + (ev.clientX - start.clientX) / scale;
+      const y = start.y + (ev.clientY - start.clientY) / scale;
+      setLegendConfig(prev=>({ ...prev, position: { x, y } }));
+    };
+    const handleUp = ()=>{
+      window.removeEventListener("mousemove", handleMove);
+      window.removeEventListener("mouseup", handleUp);
+    };
+    window.addEventListener("mousemove", handleMove);
+    window.addEventListener("mouseup", handleUp);
+  },[legendLayout]);
+  const moveLegendItem = useCallback((sectionId: string, keys: string[], index: number, direction: -1 | 1)=>{
+    const target = index + direction;
+    if(target < 0 || target >= keys.length) return;
+    const next = [...keys];
+    [next[index], next[target]] = [next[target], next[index]];
+    setLegendConfig(prev=>({ ...prev, order: { ...prev.order, [sectionId]: next } }));
+  },[]);
+
   // Search highlights
   const { matchSet: searchSet, error: searchSetError } = useMemo<{
     matchSet: Set<number>;
@@ -1818,31 +4274,35 @@ export default function TreeEditor(){
     const empty = new Set<number>();
     const raw = search ?? "";
     if(!raw) return { matchSet: empty, error: null };
+    // "column=value" restricts the query to one metadata column; otherwise names and all attributes are searched
+    const fieldMatch = /^([^=]+)=(.*)$/.exec(raw);
+    const fieldColumn = fieldMatch ? metadataColumns.find(column=>column.toLowerCase() === fieldMatch[1].trim().toLowerCase()) : undefined;
+    const pattern = fieldColumn !== undefined && fieldMatch ? fieldMatch[2].trim() : raw;
+    const searchableValues = (node: TreeNode)=> fieldColumn !== undefined
+      ? [node.__metadata?.[fieldColumn] ?? ""]
+      : [node.name || "", ...Object.values(node.__metadata ?? {})];
+    let test: (value: string)=>boolean;
     if(useRegex){
       try{
-        const regex = new RegExp(raw, "i");
-        const result = new Set<number>();
-        d3.hierarchy<TreeNode>(tree).each(d=>{
-          if(!d.children){
-            const nm=d.data.name||"";
-            if(regex.test(nm) && d.data.__id !== undefined) result.add(d.data.__id);
-          }
-        });
-        return { matchSet: result, error: null };
+        const regex = new RegExp(pattern, "i");
+        test = (value)=>regex.test(value);
       }catch(err){
         return { matchSet: empty, error: (err as Error).message };
       }
+    }else{
+      const query = pattern.toLowerCase();
+      test = fieldColumn !== undefined
+        ? (value)=>value.toLowerCase() === query
+        : (value)=>value.toLowerCase().includes(query);
     }
-    const query = raw.toLowerCase();
     const result = new Set<number>();
-    d3.hierarchy<TreeNode>(tree).each(d=>{
-      if(!d.children){
-        const nm=(d.data.name||"").toLowerCase();
-        if(nm.includes(query) && d.data.__id !== undefined) result.add(d.data.__id);
+    collectTips(tree).forEach(tip=>{
+      if(tip.__id !== undefined && searchableValues(tip).some(test)){
+        result.add(tip.__id);
       }
     });
     return { matchSet: result, error: null };
-  },[search, tree, useRegex]);
+  },[search, tree, useRegex, metadataColumns]);
 
   useEffect(()=>{ setRegexError(searchSetError); },[searchSetError]);
 
@@ -1871,10 +4331,10 @@ export default function TreeEditor(){
 
   const selectedNode = useMemo(()=>{
     if(selection?.type!=='node') return null;
-    return findById(tree, selection.id) ?? null;
-  },[selection, tree]);
+    return treeIndex.nodes.get(selection.id) ?? null;
+  },[selection, treeIndex]);
   const selectedLeaf = useMemo(()=> (selectedNode && !selectedNode.children?.length ? selectedNode : null),[selectedNode]);
-  const selInfo = (()=>{ if(!selection) return 'None'; if(selection.type==='node'){ const t=findById(tree,selection.id); return t?.name||'[node]'; } const t=findById(tree,selection.childId); return t?.name||'[branch]'; })();
+  const selInfo = (()=>{ if(!selection) return 'None'; if(selection.type==='node'){ const t=treeIndex.nodes.get(selection.id); return t?.name||'[node]'; } const t=treeIndex.nodes.get(selection.childId); return t?.name||'[branch]'; })();
 
   useEffect(()=>{
     if(!searchMatches.length){
@@ -1913,26 +4373,296 @@ export default function TreeEditor(){
       return next;
     });
   },[searchMatches, focusOnPoint]);
+  // Multi-tree collections: each entry keeps its own tree and undo history while inactive
+  const treeCollectionSummaries = useMemo(()=>treeCollection.map((entry, index)=>({
+    name: entry.name,
+    tips: index === activeTreeIndex ? tipCount : collectTips(entry.tree).length
+  })),[treeCollection, activeTreeIndex, tipCount]);
+  const loadParsedTrees = useCallback((entries: ParsedTreeEntry[])=>{
+    const parsed = entries.map(entry=>({ name: entry.name, tree: ensureIds(entry.tree), history: [], historyIndex: -1, rooted: entry.rooted } as TreeCollectionEntry));
+    const first = parsed[0];
+    setTreeCollection(parsed);
+    setActiveTreeIndex(0);
+    setTreeRooted(first.rooted);
+    setHistoryStack([first.tree]);
+    setHistoryIndex(0);
+    setSelection(null);
+    setMultiSelection([]);
+    commitTree(first.tree, { skipHistory: true });
+  },[commitTree]);
+  // Parses NEWICK entries (in the worker when large) and draws them; a newer request makes an older one a no-op.
+  // With `replaceActive`, a single tree replaces the active tree of a loaded collection as an undoable edit.
+  const loadNewickEntries = useCallback(async (entries: NexusTree[], options?: { replaceActive?: boolean })=>{
+    const request = ++parseRequestRef.current;
+    setTreeProgress({ stage: "parse", fraction: 0 });
+    try{
+      const trees = await parseTreeEntries(entries, fraction=>{
+        if(parseRequestRef.current === request) setTreeProgress({ stage: "parse", fraction });
+      });
+      if(parseRequestRef.current !== request) return;
+      if(trees.length > 1){
+        loadParsedTrees(trees);
+      }else if(options?.replaceActive){
+        setTreeRooted(trees[0].rooted);
+        commitTree(ensureIds(trees[0].tree));
+      }else{
+        setTreeCollection([]);
+        setActiveTreeIndex(0);
+        setTreeRooted(trees[0].rooted);
+        commitTree(ensureIds(trees[0].tree));
+      }
+    }finally{
+      if(parseRequestRef.current === request) setTreeProgress(null);
+    }
+  },[loadParsedTrees, commitTree]);
+  const selectCollectionTree = useCallback((index: number)=>{
+    if(index === activeTreeIndex || !treeCollection[index]) return;
+    const updated = treeCollection.map((entry, i)=> i === activeTreeIndex
+      ? { ...entry, tree: latestTreeRef.current, history: historyStack, historyIndex, rooted: treeRooted }
+      : entry);
+    const target = updated[index];
+    const visited = target.history.length > 0;
+    setTreeCollection(updated);
+    setActiveTreeIndex(index);
+    setHistoryStack(visited ? target.history : [target.tree]);
+    setHistoryIndex(visited ? target.historyIndex : 0);
+    setSelection(null);
+    setMultiSelection([]);
+    setTreeRooted(target.rooted);
+    setRawText(toNewick(target.tree));
+    commitTree(target.tree, { skipHistory: true });
+  },[activeTreeIndex, treeCollection, historyStack, historyIndex, treeRooted, commitTree]);
+
+  // Project files: tree, styling, settings and undo history in one document
+  function applyProjectSettings(settings: Partial<ProjectSettings>){
+    if(settings.layout !== undefined) setLayout(settings.layout);
+    if(settings.edgeWidth !== undefined) setEdgeWidth(settings.edgeWidth);
+    if(settings.leafLabelSize !== undefined) setLeafLabelSize(settings.leafLabelSize);
+    if(settings.nodeLabelSize !== undefined) setNodeLabelSize(settings.nodeLabelSize);
+    if(settings.branchLabelSize !== undefined) setBranchLabelSize(settings.branchLabelSize);
+    if(settings.branchLengthPrecision !== undefined) setBranchLengthPrecision(settings.branchLengthPrecision);
+    if(settings.supportLabelSize !== undefined) setSupportLabelSize(settings.supportLabelSize);
+    if(settings.branchLenOffsetX !== undefined) setBranchLenOffsetX(settings.branchLenOffsetX);
+    if(settings.branchLenOffsetY !== undefined) setBranchLenOffsetY(settings.branchLenOffsetY);
+    if(settings.bootstrapOffsetX !== undefined) setBootstrapOffsetX(settings.bootstrapOffsetX);
+    if(settings.bootstrapOffsetY !== undefined) setBootstrapOffsetY(settings.bootstrapOffsetY);
+    if(settings.nodeLabelOffsetX !== undefined) setNodeLabelOffsetX(settings.nodeLabelOffsetX);
+    if(settings.nodeLabelOffsetY !== undefined) setNodeLabelOffsetY(settings.nodeLabelOffsetY);
+    if(settings.leafLabelOffsetX !== undefined) setLeafLabelOffsetX(settings.leafLabelOffsetX);
+    if(settings.leafLabelOffsetY !== undefined) setLeafLabelOffsetY(settings.leafLabelOffsetY);
+    if(settings.yGap !== undefined){
+      userSetYGapRef.current = true;
+      setYGap(settings.yGap);
+    }
+    if(settings.xScaleWidth !== undefined){
+      userSetWidthRef.current = true;
+      setXScaleWidth(settings.xScaleWidth);
+    }
+    if(settings.italic !== undefined) setItalic(settings.italic);
+    if(settings.showNodeLabels !== undefined) setShowNodeLabels(settings.showNodeLabels);
+    if(settings.showBranchLen !== undefined) setShowBranchLen(settings.showBranchLen);
+    if(settings.showBootstrap !== undefined) setShowBootstrap(settings.showBootstrap);
+    if(settings.supportComponent !== undefined) setSupportComponent(settings.supportComponent);
+    if(settings.supportPrecision !== undefined) setSupportPrecision(settings.supportPrecision);
+    if(settings.supportScale !== undefined) setSupportScale(settings.supportScale);
+    if(settings.supportThreshold !== undefined) setSupportThreshold(settings.supportThreshold);
+    if(settings.showNodeDots !== undefined) setShowNodeDots(settings.showNodeDots);
+    if(settings.levelOfDetail !== undefined) setLevelOfDetail(settings.levelOfDetail);
+    if(settings.leafLabelTemplate !== undefined) setLeafLabelTemplate(settings.leafLabelTemplate);
+    if(settings.leafNodeDotSize !== undefined) setLeafNodeDotSize(settings.leafNodeDotSize);
+    if(settings.internalNodeDotSize !== undefined) setInternalNodeDotSize(settings.internalNodeDotSize);
+    if(settings.scaleBarLabelSize !== undefined) setScaleBarLabelSize(settings.scaleBarLabelSize);
+    if(settings.scaleBarLabelPosition !== undefined) setScaleBarLabelPosition(settings.scaleBarLabelPosition);
+    if(settings.exportScaleBarCorner !== undefined) setExportScaleBarCorner(settings.exportScaleBarCorner);
+    if(settings.exportSizeMode !== undefined) setExportSizeMode(settings.exportSizeMode);
+    if(settings.exportWidth !== undefined) setExportWidthInput(settings.exportWidth);
+    if(settings.exportHeight !== undefined) setExportHeightInput(settings.exportHeight);
+    if(settings.exportKeepAspect !== undefined) setExportKeepAspect(settings.exportKeepAspect);
+    if(settings.pngScale !== undefined) setPngScale(settings.pngScale);
+  }
+  function openProject(project: ProjectFile){
+    const restored = project.tree;
+    reserveIds(restored);
+    project.history.stack.forEach(reserveIds);
+    project.collection.entries.forEach(entry=>{
+      reserveIds(entry.tree);
+      entry.history.forEach(reserveIds);
+    });
+    ensureIds(restored);
+    xmlImportActiveRef.current = false;
+    setTreeRooted(undefined);
+    setTreeCollection(project.collection.entries);
+    setActiveTreeIndex(project.collection.activeIndex);
+    setSelection(null);
+    setMultiSelection([]);
+    setRawText(toNewick(restored));
+    setActiveTab("data");
+    commitTree(restored, { skipHistory: true });
+    const hasHistory = project.history.stack.length > 0;
+    setHistoryStack(hasHistory ? project.history.stack : [restored]);
+    setHistoryIndex(hasHistory ? project.history.index : 0);
+    applyProjectSettings(project.settings);
+    setStyleMappings(project.styleMappings);
+    setLegendConfig(project.legend);
+    setNewickExportOptions(project.newickExport);
+  }
+
   // Loading helpers
-  function handleFileLoad(files: FileList | null){
+  // Loads the text of one tree file; `applyNewick` also draws plain NEWICK instead of only filling the editor.
+  async function loadTreeFileText(text: string, applyNewick: boolean){
+    if(isProjectText(text)){
+      openProject(parseProjectFile(text));
+      return;
+    }
+    if(isItolText(text)){
+      applyItolText(text);
+      return;
+    }
+    const xmlTrees = parseXmlTreeFile(text);
+    if(xmlTrees){
+      const trees = xmlTrees;
+      if(!trees.length) throw new Error("No trees found in XML file");
+      xmlImportActiveRef.current = true;
+      setRawText(toNewick(trees[0].tree));
+      setActiveTab("data");
+      if(trees.length > 1){
+        loadParsedTrees(trees);
+      }else{
+        setTreeCollection([]);
+        setActiveTreeIndex(0);
+        setTreeRooted(trees[0].rooted);
+        commitTree(ensureIds(trees[0].tree));
+      }
+      return;
+    }
+    if((await diagnoseNewickTextInBackground(text)).some(d=>d.severity==="error")){
+      // Keep the whole file in the editor so the inline diagnostics point at the right place
+      setRawText(text);
+      setActiveTab("data");
+      return;
+    }
+    const entries = extractTreeEntries(text);
+    if(!entries.length) throw new Error("No trees found");
+    xmlImportActiveRef.current = false;
+    setRawText(entries[0].newick);
+    setActiveTab("data");
+    // A single-tree file replaces any loaded collection, even before it is applied.
+    if(entries.length === 1){
+      setTreeCollection([]);
+      setActiveTreeIndex(0);
+    }
+    if(isNexusText(text)) applyProjectSettings(parseFigTreeSettings(text));
+    if(entries.length > 1 || applyNewick) await loadNewickEntries(entries);
+  }
+  async function loadTreeFileEntry(entry: TreeFileEntry, applyNewick: boolean){
+    try{
+      await loadTreeFileText(entry.text, applyNewick);
+    }catch(e){
+      const message = e instanceof Error ? e.message : String(e);
+      alert("Failed to read tree file: "+message);
+    }
+  }
+  async function handleFileLoad(files: FileList | null, applyNewick = false){
+    const f=files?.[0]; if(!f) return;
+    try{
+      const entries = await readTreeFileEntries(f);
+      if(entries.length > 1){
+        setArchivePicker({ archiveName: f.name, entries, applyNewick });
+        setActiveTab("data");
+        return;
+      }
+      setArchivePicker(null);
+      await loadTreeFileEntry(entries[0], applyNewick);
+    }catch(e){
+      const message = e instanceof Error ? e.message : String(e);
+      alert("Failed to read tree file: "+message);
+    }
+  }
+  function handleTreePaneDragOver(e: React.DragEvent<HTMLDivElement>){
+    if(!Array.from(e.dataTransfer.types).includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setFileDragActive(true);
+  }
+  function handleTreePaneDragLeave(e: React.DragEvent<HTMLDivElement>){
+    if(e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setFileDragActive(false);
+  }
+  function handleTreePaneDrop(e: React.DragEvent<HTMLDivElement>){
+    if(!e.dataTransfer.files.length) return;
+    e.preventDefault();
+    setFileDragActive(false);
+    void handleFileLoad(e.dataTransfer.files, true);
+  }
+  function handleMetadataLoad(files: FileList | null){
     const f=files?.[0]; if(!f) return;
     const reader=new FileReader();
-    reader.onload=()=>{ try{ setRawText(String(reader.result)); setActiveTab("data"); }catch(e){ const message = e instanceof Error ? e.message : String(e); alert("Failed to read NEWICK: "+message);} };
+    reader.onload=()=>{
+      try{
+        const table = parseDelimitedText(String(reader.result));
+        if(!table.rows.length) throw new Error("No data rows found");
+        const current = latestTreeRef.current;
+        const { tree: next, report } = bindMetadata(current, table);
+        if(next !== current) commitTree(next, { preserveZoom: true });
+        setMetadataReport(report);
+      }catch(e){
+        const message = e instanceof Error ? e.message : String(e);
+        alert("Failed to read metadata: "+message);
+      }
+    };
+    reader.readAsText(f);
+  }
+  function applyItolText(text: string){
+    const current = latestTreeRef.current;
+    const { tree: next, report } = applyItolAnnotations(current, text, edgeWidth);
+    if(next !== current) commitTree(next, { preserveZoom: true });
+    setItolReport(report);
+    setActiveTab("data");
+  }
+  function handleItolLoad(files: FileList | null){
+    const f=files?.[0]; if(!f) return;
+    const reader=new FileReader();
+    reader.onload=()=>{
+      try{
+        applyItolText(String(reader.result));
+      }catch(e){
+        const message = e instanceof Error ? e.message : String(e);
+        alert("Failed to read iTOL annotations: "+message);
+      }
+    };
     reader.readAsText(f);
   }
-  function applyText(){
-    if(newickWarning){
-      alert(newickWarning);
+  function jumpToNewickDiagnostic(diagnostic: NewickDiagnostic){
+    const textarea = rawTextareaRef.current;
+    if(!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(diagnostic.start, Math.max(diagnostic.end, diagnostic.start + 1));
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    textarea.scrollTop = Math.max(0, (diagnostic.line - 2) * lineHeight);
+  }
+  async function applyText(){
+    if(newickErrors.length){
+      jumpToNewickDiagnostic(newickErrors[0]);
       return;
     }
+    if(xmlImportActiveRef.current){
+      const proceed = window.confirm("The imported tree will be replaced by the NEWICK text, which drops its colors, widths and properties. Continue?");
+      if(!proceed) return;
+      xmlImportActiveRef.current = false;
+    }
     try{
-      commitTree(ensureIds(parseNewick(rawText)));
+      const entries = extractTreeEntries(rawText);
+      // The editor shows the active tree of a multi-tree file; applying one tree edits it and keeps the others.
+      await loadNewickEntries(
+        entries.length ? entries : [{ name: "Tree 1", newick: rawText }],
+        { replaceActive: treeCollection.length > 1 && entries.length <= 1 }
+      );
     }catch(e){
       const message = e instanceof Error ? e.message : String(e);
       alert("Failed to parse NEWICK: "+message);
     }
   }
-  function loadExample(){ const s=EXAMPLE; setRawText(s); try{ commitTree(ensureIds(parseNewick(s))); }catch(e){ const message = e instanceof Error ? e.message : String(e); alert("Failed to parse example: "+message);} }
+  function loadExample(){ const s=EXAMPLE; xmlImportActiveRef.current = false; setRawText(s); setTreeCollection([]); setTreeRooted(undefined); setActiveTreeIndex(0); try{ commitTree(ensureIds(parseNewick(s))); }catch(e){ const message = e instanceof Error ? e.message : String(e); alert("Failed to parse example: "+message);} }
 
   function openMenuAt(cx: number, cy: number){
     const pane=rightPaneRef.current; if(!pane) return;
@@ -1941,24 +4671,386 @@ export default function TreeEditor(){
     const scrollY = pane.scrollTop;
     setMenu({visible:true,left:cx - r.left + scrollX, top:cy - r.top + scrollY});
   }
-  function showCollapsedTooltip(ev: React.MouseEvent<SVGElement>, text: string){
-    setCollapsedHover({
-      visible:true,
-      left:ev.clientX + 14,
-      top:ev.clientY + 14,
-      text
-    });
+  function showCollapsedTooltip(ev: React.MouseEvent<Element>, text: string){
+    hoverTooltipRef.current?.show(ev.clientX + 14, ev.clientY + 14, text);
   }
   function hideCollapsedTooltip(){
-    setCollapsedHover(prev=> prev.visible ? { ...prev, visible:false } : prev);
+    hoverTooltipRef.current?.hide();
+  }
+  // Tips the prune dialog would remove, and every node that goes with them, previewed while the dialog is open.
+  const pruneMatch = useMemo(()=> prunePopoverOpen && pruneText.trim() ? matchTipNames(tree, pruneText) : null,[prunePopoverOpen, pruneText, tree]);
+  const pruneRemovedTips = useMemo(()=>{
+    if(!pruneMatch) return null;
+    if(pruneMode === "remove") return pruneMatch.ids;
+    return new Set(collectTips(tree).map(tip=>tip.__id as number).filter(id=>!pruneMatch.ids.has(id)));
+  },[pruneMatch, pruneMode, tree]);
+  const prunePreview = useMemo(()=> pruneRemovedTips?.size ? prunedNodeIds(tree, pruneRemovedTips) : null,[pruneRemovedTips, tree]);
+  // Paint values for one edge or node, shared by the SVG markup and the canvas renderer.
+  function linkPaint(link: PositionedLink){
+    const source=link.source;
+    const target=link.target;
+    if(!source||!target) return null;
+    const parentData = (source.d?.data ?? {}) as TreeNode;
+    const childData = (target.d?.data ?? {}) as TreeNode;
+    const parentId = parentData.__id;
+    const childId = childData.__id;
+    const linkKey = parentId !== undefined && childId !== undefined ? linkSelectionKey(parentId, childId) : null;
+    const linkMultiSelected = linkKey ? multiSelectionKeySet.has(linkKey) : false;
+    const linkSelected = Boolean(selection && selection.type==='link' && parentId !== undefined && childId !== undefined && selection.parentId===parentId && selection.childId===childId);
+    const highlightActive = linkSelected || linkMultiSelected;
+    const customColor = childData.__edgeColor ?? (childId !== undefined ? mappedStyles.get(childId)?.edgeColor : undefined);
+    const customWidth = typeof childData.__edgeWidth === 'number' && Number.isFinite(childData.__edgeWidth) ? childData.__edgeWidth : null;
+    const highlightColor = '#f0a608ff';
+    const pruneMarked = childId !== undefined && Boolean(prunePreview?.has(childId));
+    const baseColor = pruneMarked ? PRUNE_PREVIEW_EDGE_COLOR : (customColor || '#1f2937');
+    const baseWidth = customWidth ?? edgeWidth;
+    const pointerWidth = Math.max(12, baseWidth + (highlightActive ? 12 : 8));
+    const highlightStrokeWidth = highlightActive ? Math.max(baseWidth + 3, baseWidth * 1.65) : null;
+    const midX = (source.x + target.x) / 2;
+    const branchLenValue = typeof childData.length === 'number' && Number.isFinite(childData.length) ? childData.length : 0;
+    const supportValue = showBootstrap ? formatSupportLabel(childData.__supports, supportLabelOptions) : null;
+    return {
+      source, target, parentId, childId, highlightActive, highlightColor,
+      baseColor, baseWidth, pointerWidth, highlightStrokeWidth, midX, branchLenValue,
+      supportValue
+    };
+  }
+  // Temporary level-of-detail triangles take the color of the branch leading into the clade.
+  function lodCladeColor(n: PositionedNode){
+    const nodeId = n.d.data.__id;
+    return n.d.data.__edgeColor ?? (nodeId !== undefined ? mappedStyles.get(nodeId)?.edgeColor : undefined) ?? '#1f2937';
+  }
+  function nodePaint(n: PositionedNode){
+    const nodeId = n.d.data.__id;
+    const baseSelected=nodeId !== undefined && selection?.type==='node' && selection?.id===nodeId;
+    const multiSelected = nodeId !== undefined && multiSelectionKeySet.has(nodeSelectionKey(nodeId));
+    const selected = Boolean(baseSelected || multiSelected);
+    const isDisplayLeaf=!n.d.children?.length;
+    const collapsedTipCount = typeof n.d.data.__collapsedTipCount === "number" ? n.d.data.__collapsedTipCount : undefined;
+    const isCollapsedLeaf = Boolean(isDisplayLeaf && n.d.data.__isCollapsedPlaceholder);
+    const isSimpleLeaf = isDisplayLeaf && !isCollapsedLeaf;
+    const collapsedLeafNames = nodeId !== undefined ? tipNamesById.get(nodeId) : undefined;
+    const nodeColor = n.d.data.__color;
+    const mappedStyle = nodeId !== undefined && isSimpleLeaf ? mappedStyles.get(nodeId) : undefined;
+    const mappedTipShape = mappedStyle?.tipShape;
+    const showTipSymbol = Boolean(isSimpleLeaf && (mappedStyle?.tipColor || mappedTipShape));
+    const defaultRadius = isDisplayLeaf ? Math.max(0, leafNodeDotSize) : Math.max(0, internalNodeDotSize);
+    const customRadius = typeof n.d.data.__nodeSize === "number" && Number.isFinite(n.d.data.__nodeSize)
+      ? Math.max(0, n.d.data.__nodeSize as number)
+      : null;
+    const r = customRadius ?? defaultRadius;
+    const baseCircleFill = nodeColor || mappedStyle?.tipColor || (isDisplayLeaf ? '#111827' : '#374151');
+    const circleStrokeColor = selected
+      ? '#fbbf24'
+      : (branchEditActive ? '#fb923c' : 'transparent');
+    const circleStrokeWidth = selected
+      ? Math.max(1.2, r * 0.75)
+      : (branchEditActive ? Math.max(1, r * 0.35) : 0);
+    const collapsedMetrics = isCollapsedLeaf ? getCollapsedTriangleMetrics(collapsedTipCount) : null;
+    const collapsedWidth = collapsedMetrics?.width ?? 0;
+    const textStartX = collapsedWidth + labelPadding;
+    const collapsedLabelText = isCollapsedLeaf ? `(${collapsedTipCount ?? 0})` : "";
+    const leafLabelText = formatLeafLabel(n.d.data, leafLabelTemplate);
+    const metadataTitle = isSimpleLeaf ? formatMetadataTooltip(n.d.data) : null;
+    const displayLabelText = isCollapsedLeaf ? collapsedLabelText : leafLabelText;
+    const collapsedPreview = collapsedLeafNames?.slice(0, 5) ?? [];
+    const collapsedHasMore = (collapsedLeafNames?.length ?? 0) > collapsedPreview.length;
+    const collapsedPreviewText = collapsedPreview.join(", ");
+    const collapsedTooltipCount = collapsedLeafNames?.length ?? collapsedTipCount ?? 0;
+    const collapsedTitle = isCollapsedLeaf
+      ? (
+        collapsedPreview.length
+          ? `${collapsedTooltipCount} ${collapsedTooltipCount === 1 ? "leaf" : "leaves"}: ${collapsedPreviewText}${collapsedHasMore ? ", ..." : ""}`
+          : `Collapsed subtree (${collapsedTipCount ?? 0} leaf${(collapsedTipCount ?? 0) === 1 ? "" : "s"})`
+      )
+      : null;
+    const isSearchHit = nodeId !== undefined && searchSet.has(nodeId);
+    const isActiveSearchTarget = activeSearchNodeId !== null && nodeId === activeSearchNodeId;
+    const labelBaselineY = leafLabelOffsetY;
+    const shouldItalicize = italic && (isSimpleLeaf || isCollapsedLeaf);
+    const customLabelFont = isSimpleLeaf && typeof n.d.data.__labelFontSize === "number" && Number.isFinite(n.d.data.__labelFontSize) ? Math.max(6, n.d.data.__labelFontSize as number) : null;
+    const labelFontSize = customLabelFont ?? leafLabelSize;
+    const labelBold = isSimpleLeaf && Boolean(n.d.data.__labelBold ?? mappedStyle?.labelBold);
+    const selectedLeaf = selected && (isSimpleLeaf || isCollapsedLeaf);
+    const searchHighlight = isSearchHit && (isSimpleLeaf || isCollapsedLeaf);
+    const highlightMode = isActiveSearchTarget
+      ? "search-active"
+      : (searchHighlight ? "search" : (selectedLeaf ? "selection" : null));
+    const showHighlight = highlightMode !== null;
+    const highlightStroke = highlightMode === "selection"
+      ? "#d97706"
+      : (highlightMode === "search-active" ? "#f59e0b" : "#f4c84a");
+    const highlightStrokeWidth = highlightMode === "selection" ? 2.2 : (highlightMode === "search-active" ? 2 : 1.6);
+    const labelClasses = [
+      "select-none",
+      labelBold ? "font-bold" : (showHighlight ? "font-semibold" : ""),
+      shouldItalicize ? "italic" : "",
+      isCollapsedLeaf ? "font-medium" : ""
+    ].filter(Boolean).join(" ");
+    const baseLeafFill = nodeColor || mappedStyle?.labelColor || '#1f2937';
+    const collapsedStrokeColor = nodeColor || '#000000ff';
+    const collapsedFillColor = nodeColor || '#000000ff';
+    const pruneMarked = nodeId !== undefined && Boolean(prunePreview?.has(nodeId));
+    const labelFill = pruneMarked
+      ? PRUNE_PREVIEW_LABEL_COLOR
+      : isCollapsedLeaf
+        ? collapsedStrokeColor
+        : (isSimpleLeaf ? baseLeafFill : '#374151');
+    const collapsedHalfHeight = collapsedMetrics ? collapsedMetrics.height/2 : 0;
+    return {
+      selected, isDisplayLeaf, isCollapsedLeaf, isSimpleLeaf, mappedTipShape, showTipSymbol,
+      r, baseCircleFill, circleStrokeColor, circleStrokeWidth, collapsedMetrics, collapsedWidth,
+      textStartX, metadataTitle, displayLabelText, collapsedTitle, labelBaselineY, shouldItalicize,
+      labelFontSize, labelBold, showHighlight, highlightStroke, highlightStrokeWidth, labelClasses,
+      collapsedStrokeColor, collapsedFillColor, labelFill, collapsedHalfHeight
+    };
+  }
+
+  // Canvas renderer for large trees: the same paint values as the SVG markup, drawn for the current zoom.
+  const canvasHitIndex = useMemo(()=> canvasMode ? buildCanvasHitIndex(nodes, links) : null,[canvasMode, nodes, links]);
+  function drawTreeCanvas(){
+    const canvas = canvasRef.current;
+    const svgNode = svgRef.current;
+    if(!canvas || !svgNode) return;
+    const dpr = window.devicePixelRatio || 1;
+    const pixelWidth = Math.max(1, Math.round(canvas.clientWidth * dpr));
+    const pixelHeight = Math.max(1, Math.round(canvas.clientHeight * dpr));
+    if(canvas.width !== pixelWidth) canvas.width = pixelWidth;
+    if(canvas.height !== pixelHeight) canvas.height = pixelHeight;
+    const ctx = canvas.getContext("2d");
+    if(!ctx) return;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const transform = zoomTransformRef.current ?? d3.zoomIdentity;
+    const k = transform.k || 1;
+    // The canvas covers the svg's border box; the tree is drawn inside its border like the svg content.
+    const originX = svgNode.clientLeft + transform.x + baseTranslateX;
+    const originY = svgNode.clientTop + transform.y + baseTranslateY;
+    ctx.setTransform(dpr * k, 0, 0, dpr * k, dpr * originX, dpr * originY);
+    ctx.lineJoin = "round";
+    ctx.lineCap = "round";
+    // Text smaller than this on screen is unreadable and only costs time.
+    const readable = (fontSize: number)=> fontSize * k >= 2;
+    // Only what can reach the screen is drawn; clades behind level-of-detail triangles are skipped.
+    const visible = visibleLayoutWindow();
+    const view = visible && { x0: visible.x0 - cullPadX, x1: visible.x1 + cullPadX, y0: visible.y0 - cullPadY, y1: visible.y1 + cullPadY };
+    const hidden = levelOfDetailView?.hidden;
+
+    // Edges, batched by stroke so tens of thousands of them take a handful of draw calls
+    const highlightPaths = new Map<string, Path2D>();
+    const edgePaths = new Map<string, Path2D>();
+    const addSegment = (batches: Map<string, Path2D>, key: string, sx: number, sy: number, tx: number, ty: number)=>{
+      let path = batches.get(key);
+      if(!path){ path = new Path2D(); batches.set(key, path); }
+      path.moveTo(sx, sy);
+      path.lineTo(sx, ty);
+      path.lineTo(tx, ty);
+    };
+    const edgeTexts: { text: string; x: number; y: number; size: number; color: string }[] = [];
+    links.forEach(link=>{
+      if((link.target && hidden?.has(link.target.d)) || (view && !linkInWindow(link, view))) return;
+      const paint = linkPaint(link);
+      if(!paint) return;
+      const { source, target } = paint;
+      if(paint.highlightActive && paint.highlightStrokeWidth){
+        addSegment(highlightPaths, `${paint.highlightColor}|${paint.highlightStrokeWidth}`, source.x, source.y, target.x, target.y);
+      }
+      addSegment(edgePaths, `${paint.baseColor}|${paint.baseWidth}`, source.x, source.y, target.x, target.y);
+      if(layout==='phylogram' && showBranchLen && readable(branchLabelSize)){
+        edgeTexts.push({ text: paint.branchLenValue.toFixed(branchLengthPrecisionSafe), x: paint.midX + branchLenOffsetX, y: target.y + branchLenOffsetY, size: branchLabelSize, color: "#475569" });
+      }
+      if(paint.supportValue !== null && readable(supportLabelSize)){
+        edgeTexts.push({ text: paint.supportValue, x: paint.midX + bootstrapOffsetX, y: target.y + bootstrapOffsetY, size: supportLabelSize, color: "#64748b" });
+      }
+    });
+    const strokeBatches = (batches: Map<string, Path2D>, alpha: number)=>{
+      ctx.globalAlpha = alpha;
+      batches.forEach((path, key)=>{
+        const [color, width] = key.split("|");
+        ctx.strokeStyle = color;
+        ctx.lineWidth = Number(width);
+        ctx.stroke(path);
+      });
+      ctx.globalAlpha = 1;
+    };
+    strokeBatches(highlightPaths, 0.85);
+    strokeBatches(edgePaths, 1);
+    ctx.textAlign = "center";
+    ctx.textBaseline = "alphabetic";
+    edgeTexts.forEach(({ text, x, y, size, color })=>{
+      ctx.font = `${size}px ${LABEL_FONT_STACK}`;
+      ctx.fillStyle = color;
+      ctx.fillText(text, x, y);
+    });
+
+    levelOfDetailView?.clades.forEach(({ node, extent })=>{
+      if(view && (node.x > view.x1 || extent.maxX < view.x0 || extent.minY > view.y1 || extent.maxY < view.y0)) return;
+      const color = lodCladeColor(node);
+      ctx.beginPath();
+      ctx.moveTo(node.x, node.y);
+      ctx.lineTo(extent.maxX, extent.minY);
+      ctx.lineTo(extent.maxX, extent.maxY);
+      ctx.closePath();
+      ctx.globalAlpha = 0.35;
+      ctx.fillStyle = color;
+      ctx.fill();
+      ctx.globalAlpha = 1;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = edgeWidth;
+      ctx.stroke();
+    });
+
+    // Nodes, collapsed triangles and labels
+    const shapePaths = new Map<string, Path2D>();
+    nodes.forEach(n=>{
+      if(hidden?.has(n.d)) return;
+      if(view && (n.x - cullPadX > view.x1 || n.x + cullPadX < view.x0 || n.y > view.y1 || n.y < view.y0)) return;
+      const paint = nodePaint(n);
+      const { isDisplayLeaf, isCollapsedLeaf, isSimpleLeaf, mappedTipShape, r } = paint;
+      if(showNodeDotsEffective || paint.showTipSymbol){
+        const useShape = mappedTipShape && mappedTipShape !== "circle" && !branchEditActive;
+        const radius = branchEditActive ? Math.max(r + 1.5, isDisplayLeaf ? 4 : 3) : r;
+        let path: Path2D;
+        if(useShape){
+          const key = `${mappedTipShape}|${r}`;
+          path = shapePaths.get(key) ?? new Path2D(tipShapePath(mappedTipShape, r));
+          shapePaths.set(key, path);
+        }else{
+          path = new Path2D();
+          path.arc(0, 0, radius, 0, Math.PI * 2);
+        }
+        ctx.translate(n.x, n.y);
+        ctx.fillStyle = branchEditActive && !useShape ? (isDisplayLeaf ? "#0f172a" : "#1f2937") : paint.baseCircleFill;
+        ctx.fill(path);
+        if(paint.circleStrokeWidth > 0){
+          ctx.strokeStyle = paint.circleStrokeColor;
+          ctx.lineWidth = paint.circleStrokeWidth;
+          ctx.stroke(path);
+        }
+        ctx.translate(-n.x, -n.y);
+      }
+      if(isCollapsedLeaf && paint.collapsedMetrics){
+        ctx.beginPath();
+        ctx.moveTo(n.x + paint.collapsedWidth, n.y - paint.collapsedHalfHeight);
+        ctx.lineTo(n.x, n.y);
+        ctx.lineTo(n.x + paint.collapsedWidth, n.y + paint.collapsedHalfHeight);
+        ctx.closePath();
+        ctx.fillStyle = paint.collapsedFillColor;
+        ctx.fill();
+        ctx.strokeStyle = paint.collapsedStrokeColor;
+        ctx.lineWidth = paint.selected ? 2.4 : 1.2;
+        ctx.stroke();
+      }
+      if((isSimpleLeaf || isCollapsedLeaf) && leafLabelsVisible && readable(paint.labelFontSize)){
+        const fontSize = isCollapsedLeaf ? leafLabelSize : paint.labelFontSize;
+        const weight = paint.labelBold ? "bold" : (paint.showHighlight ? "600" : (isCollapsedLeaf ? "500" : "normal"));
+        ctx.font = `${paint.shouldItalicize ? "italic " : ""}${weight} ${fontSize}px ${LABEL_FONT_STACK}`;
+        ctx.textAlign = "left";
+        ctx.textBaseline = "middle";
+        const x = n.x + paint.textStartX;
+        const y = n.y + paint.labelBaselineY;
+        if(paint.showHighlight){
+          ctx.strokeStyle = paint.highlightStroke;
+          ctx.lineWidth = paint.highlightStrokeWidth;
+          ctx.strokeText(paint.displayLabelText, x, y);
+        }
+        ctx.fillStyle = paint.labelFill;
+        ctx.fillText(paint.displayLabelText, x, y);
+      }
+      if(!isDisplayLeaf && showNodeLabels && n.d.data.name && readable(nodeLabelSize)){
+        ctx.font = `${nodeLabelSize}px ${LABEL_FONT_STACK}`;
+        ctx.textAlign = "right";
+        ctx.textBaseline = "alphabetic";
+        ctx.fillStyle = "#6b7280";
+        ctx.fillText(n.d.data.name, n.x + nodeLabelOffsetX, n.y + nodeLabelOffsetY);
+      }
+    });
+  }
+  useLayoutEffect(()=>{
+    canvasDrawRef.current = canvasMode ? drawTreeCanvas : ()=>{};
+  });
+  // Redraws when something the canvas shows changes; zoom and pan redraw through canvasDrawRef on their own.
+  useLayoutEffect(()=>{
+    canvasDrawRef.current();
+  },[
+    canvasMode, nodes, links, svgHeight, paneDimensions, levelOfDetailView, leafLabelsVisible, cullPadX, cullPadY, layout, edgeWidth,
+    showBranchLen, branchLabelSize, branchLengthPrecisionSafe, branchLenOffsetX, branchLenOffsetY, showBootstrap,
+    supportLabelOptions, supportLabelSize, bootstrapOffsetX, bootstrapOffsetY, showNodeDotsEffective, branchEditActive,
+    leafNodeDotSize, internalNodeDotSize, leafLabelSize, leafLabelOffsetY, labelPadding, leafLabelTemplate, italic,
+    showNodeLabels, nodeLabelSize, nodeLabelOffsetX, nodeLabelOffsetY, getCollapsedTriangleMetrics, selection,
+    multiSelectionKeySet, mappedStyles, searchSet, activeSearchNodeId, prunePreview,
+  ]);
+  // Maps a pointer position to the node (including its label or collapsed triangle) or edge under it.
+  function hitTestCanvas(clientX: number, clientY: number): { node?: PositionedNode; link?: PositionedLink; tooltip?: string | null } | null {
+    const svgNode = svgRef.current;
+    if(!svgNode || !canvasHitIndex) return null;
+    const rect = svgNode.getBoundingClientRect();
+    const transform = zoomTransformRef.current ?? d3.zoomIdentity;
+    const k = transform.k || 1;
+    const x = (clientX - rect.left - svgNode.clientLeft - transform.x - baseTranslateX) / k;
+    const y = (clientY - rect.top - svgNode.clientTop - transform.y - baseTranslateY) / k;
+    const tolerance = 6 / k;
+    const hidden = levelOfDetailView?.hidden;
+    const node = canvasHitIndex.nodes.find(x, y, Math.max(tolerance, leafNodeDotSize, internalNodeDotSize));
+    if(node){
+      // Anything inside a level-of-detail triangle selects the clade it stands for.
+      const owner = hidden?.get(node.d);
+      return owner ? { node: owner } : { node, tooltip: nodePaint(node).metadataTitle };
+    }
+    const leafRows = leafLabelsVisible ? leavesNearY(canvasHitIndex, y, Math.max(leafLabelSize, yGap) / 2) : [];
+    for(const leaf of leafRows){
+      if(hidden?.has(leaf.d)) continue;
+      const paint = nodePaint(leaf);
+      const halfHeight = Math.max(paint.labelFontSize / 2, paint.collapsedHalfHeight);
+      if(Math.abs(leaf.y + (paint.isCollapsedLeaf ? 0 : paint.labelBaselineY) - y) > halfHeight) continue;
+      const labelWidth = measureLabelWidth(paint.displayLabelText, paint.labelFontSize, paint.shouldItalicize);
+      if(x >= leaf.x && x <= leaf.x + paint.textStartX + labelWidth){
+        return { node: leaf, tooltip: paint.isCollapsedLeaf ? paint.collapsedTitle : paint.metadataTitle };
+      }
+    }
+    const link = findLinkAt(canvasHitIndex, x, y, tolerance);
+    const linkOwner = link?.target ? hidden?.get(link.target.d) : undefined;
+    if(linkOwner) return { node: linkOwner };
+    return link ? { link } : null;
+  }
+  function handleSvgClick(e: React.MouseEvent<SVGSVGElement>){
+    if(canvasMode && !(e.target as Element).closest?.("[data-legend]")){
+      const hit = hitTestCanvas(e.clientX, e.clientY);
+      if(hit?.node){ onClickNode(hit.node, e); return; }
+      if(hit?.link){ onClickLink(hit.link, e); return; }
+    }
+    handleSvgBlankClick(e);
+  }
+  function handleSvgMouseDown(e: React.MouseEvent<SVGSVGElement>){
+    if(!canvasMode || !branchEditMode || (e.target as Element).closest?.("[data-legend]")) return;
+    const hit = hitTestCanvas(e.clientX, e.clientY);
+    if(hit?.node) handleNodeMouseDown(hit.node, e);
   }
-  const handleNodeMouseDown = useCallback((n: PositionedNode, e: React.MouseEvent<SVGGElement, MouseEvent>)=>{
+  function handleSvgMouseMove(e: React.MouseEvent<SVGSVGElement>){
+    if(!canvasMode) return;
+    const hit = hitTestCanvas(e.clientX, e.clientY);
+    const cursor = hit ? "pointer" : "";
+    if(e.currentTarget.style.cursor !== cursor) e.currentTarget.style.cursor = cursor;
+    if(hit?.tooltip) showCollapsedTooltip(e, hit.tooltip);
+    else hideCollapsedTooltip();
+  }
+  // Exports serialize the SVG tree, which is not mounted while the canvas draws the view.
+  const withSvgTree = useCallback(<T,>(build: ()=>T): T => {
+    if(!canvasMode && !levelOfDetail) return build();
+    flushSync(()=>setSvgExportPass(true));
+    try{
+      return build();
+    }finally{
+      setSvgExportPass(false);
+    }
+  },[canvasMode, levelOfDetail]);
+  const handleNodeMouseDown = useCallback((n: PositionedNode, e: React.MouseEvent<Element>)=>{
     if(!branchEditMode) return;
     if(e.button !== 0) return;
     const nodeId = n.d.data.__id;
     if(nodeId === undefined) return;
     if(layout==='phylogram' && !n.d.parent) return;
-    const treeNode = findById(latestTreeRef.current, nodeId);
+    const treeNode = getTreeIndex(latestTreeRef.current).nodes.get(nodeId);
     if(!treeNode) return;
     e.preventDefault();
     e.stopPropagation();
@@ -1983,14 +5075,14 @@ export default function TreeEditor(){
       window.removeEventListener("mousemove", handleMove);
       window.removeEventListener("mouseup", handleUp);
       if(info.hasMoved){
-        commitTree(clone(latestTreeRef.current), { preserveZoom: true });
+        commitTree(latestTreeRef.current, { preserveZoom: true });
       }
     };
     window.addEventListener("mousemove", handleMove);
     window.addEventListener("mouseup", handleUp);
   },[branchEditMode, layout, totalLength, xScaleWidth, updateCladoOffset, updateBranchLengthValue, commitTree]);
 
-  function onClickNode(n: PositionedNode, e: React.MouseEvent<SVGGElement, MouseEvent>){
+  function onClickNode(n: PositionedNode, e: React.MouseEvent<Element>){
     if(suppressClickRef.current){
       suppressClickRef.current=false;
       return;
@@ -2006,7 +5098,7 @@ export default function TreeEditor(){
     openMenuAt(e.clientX,e.clientY);
     e.stopPropagation();
   }
-  function onClickLink(l: PositionedLink, e: React.MouseEvent<SVGGElement, MouseEvent>){
+  function onClickLink(l: PositionedLink, e: React.MouseEvent<Element>){
     if(!l.source || !l.target) return;
     const parentId=l.source.d.data.__id;
     const childId=l.target.d.data.__id;
@@ -2024,18 +5116,10 @@ export default function TreeEditor(){
   const applyToSelectedLeaves = (mutator: (node: TreeNode)=>void)=>{
     const targets = multiSelection.length ? multiSelection : (selection ? [selection] : []);
     if(!targets.length) return false;
-    const updated = clone(tree);
-    let changed=false;
-    targets.forEach(sel=>{
-      if(sel.type!=='node') return;
-      const node = findById(updated, sel.id);
-      if(!node || node.children?.length) return;
-      mutator(node);
-      changed=true;
-    });
-    if(!changed) return false;
-    commitTree(updated, { preserveZoom: true });
-    return true;
+    const leafIds = targets.flatMap(sel=>sel.type==='node' && !treeIndex.nodes.get(sel.id)?.children?.length ? [sel.id] : []);
+    return editNodes(leafIds, writable=>writable.forEach((node, id)=>{
+      if(leafIds.includes(id)) mutator(node);
+    }));
   };
 
   // Editing actions
@@ -2043,35 +5127,44 @@ export default function TreeEditor(){
     if(!selection) return;
     const targetId = selection.type==='node'?selection.id:selection.childId;
     if(targetId === undefined) return;
-    const target = findById(tree, targetId);
-    if(!target?.children?.length) return;
-    target.__collapsed = true;
-    commitTree(clone(tree), { preserveZoom: true });
+    if(!treeIndex.nodes.get(targetId)?.children?.length) return;
+    editNodes([targetId], writable=>{
+      const target = writable.get(targetId);
+      if(target) target.__collapsed = true;
+    });
     setMenu({...menu,visible:false});
   }
   function actionExpandSelected(){
     if(!selection) return;
     const targetId = selection.type==='node'?selection.id:selection.childId;
     if(targetId === undefined) return;
-    const target = findById(tree, targetId);
+    const target = treeIndex.nodes.get(targetId);
     if(!target) return;
     if(target.__collapsed){
-      delete target.__collapsed;
-      commitTree(clone(tree), { preserveZoom: true });
+      editNodes([targetId], writable=>{
+        delete writable.get(targetId)?.__collapsed;
+      });
     }
     setMenu({...menu,visible:false});
   }
   function actionDeleteSelected(){ if(!selection) return;
-    if(selection.type==='node'){ const p=parentOf(tree, selection.id); if(!p){ alert('Cannot delete the root node'); return; }
-      p.children=(p.children||[]).filter(c=>c.__id!==selection.id); if(!p.children?.length) delete p.children;
-    } else { const p=findById(tree, selection.parentId); if(!p?.children) return; p.children=p.children.filter(c=>c.__id!==selection.childId); if(!p.children?.length) delete p.children; }
-    collapseUnaryInPlace(tree); setSelection(null); setMultiSelection([]); setMenu({...menu,visible:false}); commitTree(clone(tree), { preserveZoom: true });
+    const [parentId, childId] = selection.type==='node'
+      ? [treeIndex.parents.get(selection.id)?.__id, selection.id]
+      : [selection.parentId, selection.childId];
+    if(selection.type==='node' && parentId === undefined){ alert('Cannot delete the root node'); return; }
+    if(parentId === undefined || !treeIndex.nodes.get(parentId)?.children) return;
+    const pruned = editTree(tree, [parentId], writable=>{
+      const p = writable.get(parentId) as TreeNode;
+      p.children=(p.children||[]).filter(c=>c.__id!==childId); if(!p.children?.length) delete p.children;
+    });
+    setSelection(null); setMultiSelection([]); setMenu({...menu,visible:false}); commitTree(collapseUnaryNodes(pruned), { preserveZoom: true });
   }
   function actionAddLeaf(){
     if(!selection) return;
     const addLeafOnEdge = (parent: TreeNode, child: TreeNode)=>{
       const currentLength = typeof child.length === "number" && Number.isFinite(child.length) ? child.length : 0.1;
       const R = splitEdge(parent, child, Math.max(1e-6, currentLength / 2));
+      R.__id = nextId();
       R.children ??= [];
       R.children.push({
         __id: nextId(),
@@ -2079,53 +5172,52 @@ export default function TreeEditor(){
         length: layout === "phylogram" ? Math.max(1e-3, currentLength / 2) : undefined,
       });
     };
-    const finalize = ()=>{
-      ensureIds(tree);
-      commitTree(clone(tree), { preserveZoom: true });
-      setMenu({...menu,visible:false});
-    };
     if(selection.type==='link'){
-      const p=findById(tree, selection.parentId), c=findById(tree, selection.childId); if(!p||!c) return;
-      addLeafOnEdge(p,c);
-      finalize();
+      const {parentId, childId} = selection;
+      if(!treeIndex.nodes.has(parentId) || !treeIndex.nodes.has(childId)) return;
+      editNodes([parentId, childId], writable=>addLeafOnEdge(writable.get(parentId) as TreeNode, writable.get(childId) as TreeNode));
+      setMenu({...menu,visible:false});
       return;
     }
     if(selection.type==='node'){
-      const t=findById(tree, selection.id); if(!t) return;
-      if(!t.children?.length){
-        const parent = parentOf(tree, selection.id);
-        const currentLength = typeof t.length === "number" && Number.isFinite(t.length) ? t.length : 0.1;
-        if(parent){
-          addLeafOnEdge(parent, t);
-        }else{
-          const baseLength = layout==='phylogram' ? Math.max(1e-3, currentLength / 2) : undefined;
-          const originalLeaf: TreeNode = { ...t, __id: nextId(), children: undefined, length: baseLength };
-          const newLeaf: TreeNode = { __id: nextId(), name: "New", length: baseLength };
-          t.children = [originalLeaf, newLeaf];
-          t.length = undefined;
+      const id = selection.id;
+      const parentId = treeIndex.parents.get(id)?.__id;
+      if(!treeIndex.nodes.has(id)) return;
+      editNodes(parentId === undefined ? [id] : [parentId, id], writable=>{
+        const t=writable.get(id) as TreeNode;
+        if(!t.children?.length){
+          const parent = parentId === undefined ? null : writable.get(parentId);
+          const currentLength = typeof t.length === "number" && Number.isFinite(t.length) ? t.length : 0.1;
+          if(parent){
+            addLeafOnEdge(parent, t);
+          }else{
+            const baseLength = layout==='phylogram' ? Math.max(1e-3, currentLength / 2) : undefined;
+            const originalLeaf: TreeNode = { ...t, __id: nextId(), children: undefined, length: baseLength };
+            const newLeaf: TreeNode = { __id: nextId(), name: "New", length: baseLength };
+            t.children = [originalLeaf, newLeaf];
+            t.length = undefined;
+          }
+          return;
         }
-        finalize();
-        return;
-      }
-      const leaf={__id:nextId(), name:'New', length: layout==='phylogram'?0.1:undefined};
-      if(t.children.length===1) t.children.push(leaf);
-      else {
-        const existingChildren = t.children ?? [];
-        const clonedChildren = existingChildren.map(x=>x);
-        const I: TreeNode={__id:nextId(), name:'', children:clonedChildren};
-        I.length=undefined; t.children=[I,leaf];
-        const lens=clonedChildren.map(ch=>Number.isFinite(ch.length)?Number(ch.length):0).filter(v=>Number.isFinite(v));
-        const med=lens.length? lens.sort((a,b)=>a-b)[Math.floor(lens.length/2)]:0.1;
-        leaf.length = (layout==='phylogram')? Math.max(1e-3, med||0.1): undefined;
-      }
-      finalize();
+        const leaf={__id:nextId(), name:'New', length: layout==='phylogram'?0.1:undefined};
+        if(t.children.length===1) t.children.push(leaf);
+        else {
+          const existingChildren = t.children ?? [];
+          const clonedChildren = existingChildren.map(x=>x);
+          const I: TreeNode={__id:nextId(), name:'', children:clonedChildren};
+          I.length=undefined; t.children=[I,leaf];
+          const lens=clonedChildren.map(ch=>Number.isFinite(ch.length)?Number(ch.length):0).filter(v=>Number.isFinite(v));
+          const med=lens.length? lens.sort((a,b)=>a-b)[Math.floor(lens.length/2)]:0.1;
+          leaf.length = (layout==='phylogram')? Math.max(1e-3, med||0.1): undefined;
+        }
+      });
+      setMenu({...menu,visible:false});
     }
   }
   function actionFlipNode(){
     if(!selection) return;
     const id=selection.type==='node'?selection.id:selection.childId;
-    const t=findById(tree,id);
-    if(!t?.children) return;
+    if(!treeIndex.nodes.get(id)?.children) return;
     const currentTransform = zoomTransformRef.current ?? d3.zoomIdentity;
     const anchor = nodePositionsById.get(id);
     if(anchor && Number.isFinite(currentTransform.k)){
@@ -2135,52 +5227,181 @@ export default function TreeEditor(){
     }else{
       pendingZoomAnchorRef.current = { transform: currentTransform };
     }
-    t.children.reverse();
-    commitTree(clone(tree), { preserveZoom: true });
+    editNodes([id], writable=>{ writable.get(id)?.children?.reverse(); });
+    setMenu({...menu,visible:false});
+  }
+  const selectedSubtreeSortable = Boolean(selection && treeIndex.nodes.get(selection.type==='node' ? selection.id : selection.childId)?.children?.length);
+  // Sorts the children of every node in the tree or the selected subtree as one undo step.
+  function actionOrderChildren(scope: "tree" | "selection"){
+    const topId = scope === "tree" ? tree.__id : (selection?.type==='node' ? selection.id : selection?.childId);
+    const top = topId !== undefined ? treeIndex.nodes.get(topId) : undefined;
+    if(!top?.children?.length) return;
+    const order: ChildOrder = childOrder.key === "metadata"
+      ? { ...childOrder, column: childOrder.column && metadataColumns.includes(childOrder.column) ? childOrder.column : metadataColumns[0] }
+      : childOrder;
+    if(order.key === "metadata" && !order.column){ alert('Import tip metadata before sorting by a metadata column'); return; }
+    const values = childSortValues(top, order);
+    const ids = listNodes(top).filter(n=>(n.children?.length ?? 0) > 1).map(n=>n.__id as number);
+    editNodes(ids, writable=>{
+      ids.forEach(id=>{
+        const node = writable.get(id);
+        if(node?.children) sortChildrenBy(node.children, values, order.descending);
+      });
+    });
     setMenu({...menu,visible:false});
   }
+  // Turns weakly supported or very short internal branches into polytomies as one undo step. Branches without a
+  // support value (or without a length) are left alone.
+  function actionCollapsePolytomies(by: "support" | "length"){
+    const threshold = Number(by === "support" ? polytomySupportInput : polytomyLengthInput);
+    if(!Number.isFinite(threshold)){ alert('Enter a number for the threshold'); return; }
+    const component = Math.min(polytomySupportComponent, Math.max(0, supportComponentCount - 1));
+    const { root: next, contracted } = contractEdges(tree, by === "support"
+      ? node=>{ const value = node.__supports?.[component]; return value !== undefined && value < threshold; }
+      : node=>Number.isFinite(node.length) && (node.length as number) < threshold);
+    if(contracted){
+      setSelection(null); setMultiSelection([]); setMenu({...menu,visible:false});
+      commitTree(next, { preserveZoom: true });
+    }
+    setPolytomyReport({ by, contracted });
+  }
   function ladderizeTipBottom(root: TreeNode, tipId: number){
-    const hasTip=(n: TreeNode)=>containsTipId(n,tipId);
-    (function rec(n: TreeNode){
-      if(!n.children?.length) return;
-      n.children.sort((a,b)=>(hasTip(a)?1:0)-(hasTip(b)?1:0));
-      const last=n.children[n.children.length-1];
-      if(last&&hasTip(last)) rec(last);
-    })(root);
+    // Walk up from the tip, moving each clade on its path last among its siblings.
+    const parents = new Map<TreeNode, TreeNode>();
+    const tips: TreeNode[] = [];
+    forEachNode(root, (n, parent)=>{
+      if(parent) parents.set(n, parent);
+      if(!n.children?.length && n.__id===tipId) tips.push(n);
+    });
+    for(let n: TreeNode | undefined = tips[0]; n; n = parents.get(n)){
+      const siblings = parents.get(n)?.children;
+      if(!siblings) break;
+      siblings.splice(siblings.indexOf(n), 1);
+      siblings.push(n);
+    }
   }
   function actionReroot(){ if(!selection) return;
     if(selection.type==='node'){
-      const obj=findById(tree,selection.id); if(!obj) return;
+      const obj=treeIndex.nodes.get(selection.id); if(!obj) return;
       const isLeaf = !obj.children?.length;
       if(isLeaf){
-        const parent = parentOf(tree, selection.id);
+        const parent = treeIndex.parents.get(selection.id);
         if(!parent) return;
         const r0 = rerootOnEdge(tree, parent.__id ?? selection.id, selection.id, 0.5);
         const r = collapseUnaryInPlace(r0); ensureIds(r);
         ladderizeTipBottom(r, selection.id);
-        commitTree(clone(r), { preserveZoom: true }); setSelection(null); setMultiSelection([]); setMenu({...menu,visible:false});
+        commitTree(r, { preserveZoom: true }); setSelection(null); setMultiSelection([]); setMenu({...menu,visible:false});
         return;
       }
       const r0=rerootAt(tree,obj); const r=collapseUnaryInPlace(r0); ensureIds(r);
       if(!obj.children?.length && obj.__id !== undefined) ladderizeTipBottom(r,obj.__id);
-      commitTree(clone(r), { preserveZoom: true }); setSelection(null); setMultiSelection([]); setMenu({...menu,visible:false});
+      commitTree(r, { preserveZoom: true }); setSelection(null); setMultiSelection([]); setMenu({...menu,visible:false});
     }
     else {
       const {parentId,childId}=selection; const r0=rerootOnEdge(tree,parentId,childId,0.5); const r=collapseUnaryInPlace(r0); ensureIds(r);
       const tip=findById(r,childId);
       if(tip && !tip.children?.length && tip.__id !== undefined) ladderizeTipBottom(r, tip.__id);
-      commitTree(clone(r), { preserveZoom: true }); setSelection(null); setMultiSelection([]); setMenu({...menu,visible:false});
+      commitTree(r, { preserveZoom: true }); setSelection(null); setMultiSelection([]); setMenu({...menu,visible:false});
+    }
+  }
+  const formatRootingValue = (value: number)=> Number(value.toPrecision(4)).toString();
+  // Names the child side of an edge in the tree before rerooting, i.e. the clade below the new root.
+  function describeRootBranch(childId: number){
+    const child = treeIndex.nodes.get(childId);
+    const cladeTips = child ? collectTips(child) : [];
+    return cladeTips.length > 1
+      ? `${cladeTips[0].name || "Unnamed"} … ${cladeTips[cladeTips.length - 1].name || "Unnamed"} (${cladeTips.length} ${t("tips","Leaves").toLowerCase()})`
+      : (cladeTips[0]?.name || "Unnamed");
+  }
+  function actionAutoRoot(method: "midpoint" | "mad"){
+    if(method === "mad" && tipCount > MAD_ROOTING_TIP_LIMIT){
+      alert(`MAD rooting is limited to ${MAD_ROOTING_TIP_LIMIT} tips; use midpoint rooting for larger trees`);
+      return;
     }
+    const report = method === "mad" ? findMadRoot(tree) : findMidpointRoot(tree);
+    if(!report){
+      alert(`${method === "mad" ? "MAD" : "Midpoint"} rooting needs at least ${method === "mad" ? 3 : 2} tips and positive branch lengths`);
+      return;
+    }
+    const clade = describeRootBranch(report.childId);
+    const r0 = rerootAtPlacement(tree, report);
+    if(r0 !== tree){
+      const r = collapseUnaryInPlace(r0); ensureIds(r);
+      commitTree(r, { preserveZoom: true });
+    }
+    setSelection(null); setMultiSelection([]); setMenu({...menu,visible:false});
+    setRootingReport({ ...report, clade, unchanged: r0 === tree });
+  }
+  const selectedTipIds = useMemo(()=>{
+    const ids = new Set<number>();
+    const targets = multiSelection.length ? multiSelection : (selection ? [selection] : []);
+    targets.forEach(target=>{
+      const node = treeIndex.nodes.get(target.type==='node' ? target.id : target.childId);
+      if(node) collectTips(node).forEach(tip=>{ if(tip.__id !== undefined) ids.add(tip.__id); });
+    });
+    return ids;
+  },[multiSelection, selection, treeIndex]);
+  function actionRootWithOutgroup(source: "names" | "selection" | "search"){
+    let outgroup = new Set<number>();
+    const missing: string[] = [];
+    if(source === "selection") outgroup = selectedTipIds;
+    else if(source === "search") outgroup = searchSet;
+    else{
+      const matched = matchTipNames(tree, outgroupText);
+      outgroup = matched.ids;
+      missing.push(...matched.missing);
+      if(!outgroup.size && missing.length){ alert('None of the pasted names match a tip: '+missing.join(', ')); return; }
+    }
+    if(!outgroup.size){ alert('Select the outgroup tips, search for them or paste their names first'); return; }
+    const stem = findOutgroupStem(tree, outgroup);
+    if(!stem){ alert('The outgroup must leave at least one tip outside it'); return; }
+    if(stem.intruders.length){
+      const shown = stem.intruders.slice(0, OUTGROUP_INTRUDER_PREVIEW_LIMIT).join(', ');
+      const more = stem.intruders.length > OUTGROUP_INTRUDER_PREVIEW_LIMIT ? ` and ${stem.intruders.length - OUTGROUP_INTRUDER_PREVIEW_LIMIT} more` : '';
+      const proceed = window.confirm(`The outgroup is not monophyletic; rooting on its smallest enclosing clade also puts these ${stem.intruders.length} tips in it: ${shown}${more}. Root there anyway?`);
+      if(!proceed) return;
+    }
+    // A bifurcating root on the stem already separates the outgroup; moving it along the stem would only shift lengths.
+    const alreadyRooted = tree.children?.length === 2 && treeIndex.parents.get(stem.childId) === tree;
+    const clade = describeRootBranch(stem.childId);
+    const r0 = alreadyRooted ? tree : rerootAtPlacement(tree, stem);
+    if(r0 !== tree){
+      const r = collapseUnaryInPlace(r0); ensureIds(r);
+      commitTree(r, { preserveZoom: true });
+    }
+    setSelection(null); setMultiSelection([]); setMenu({...menu,visible:false});
+    setRootingReport({ method: "outgroup", ...stem, outgroupSize: outgroup.size, missing, clade, unchanged: r0 === tree });
+  }
+  function handlePruneListLoad(files: FileList | null){
+    const f=files?.[0]; if(!f) return;
+    const reader=new FileReader();
+    reader.onload=()=>{ setPruneText(String(reader.result)); setPruneReport(null); };
+    reader.readAsText(f);
+  }
+  function fillPruneTextFromSearch(){
+    const names = [...searchSet].map(id=>treeIndex.nodes.get(id)?.name || "Unnamed");
+    setPruneText([...new Set(names)].join("\n"));
+    setPruneReport(null);
+  }
+  function actionPrune(){
+    if(!pruneMatch || !pruneRemovedTips) return;
+    if(!pruneMatch.ids.size){ alert('None of the listed names match a tip: '+pruneMatch.missing.join(', ')); return; }
+    if(!pruneRemovedTips.size){ alert('No tips would be removed'); return; }
+    const pruned = pruneTips(tree, pruneRemovedTips);
+    if(!pruned){ alert('At least two tips must remain after pruning'); return; }
+    setSelection(null); setMultiSelection([]); setMenu({...menu,visible:false});
+    commitTree(pruned, { preserveZoom: true });
+    setPruneReport({ removed: pruneRemovedTips.size, remaining: tipCount - pruneRemovedTips.size, missing: pruneMatch.missing });
+    setPruneText("");
   }
   function actionRenameTip(nm: string){
     if(!selection) return;
     const id=selection.type==='node'?selection.id:selection.childId;
-    const t=findById(tree,id); if(!t) return;
+    const t=treeIndex.nodes.get(id); if(!t) return;
     if(t.children?.length){ alert('Only leaf nodes can be renamed'); return; }
-    const nextName=(nm ?? tipNameInput ?? "").trim();
-    t.name=nextName || 'Unnamed';
-    setTipNameInput(t.name);
-    commitTree(clone(tree), { preserveZoom: true });
+    const nextName=(nm ?? tipNameInput ?? "").trim() || 'Unnamed';
+    editNodes([id], writable=>{ (writable.get(id) as TreeNode).name=nextName; });
+    setTipNameInput(nextName);
     setMenu({...menu,visible:false});
   }
   function actionSetTipLabelBold(enabled: boolean){
@@ -2216,10 +5437,8 @@ export default function TreeEditor(){
     const v=parseFloat(candidate);
     if(Number.isNaN(v)||v<0){ alert('Enter a non-negative number'); return; }
     const id=selection?.type==='link'?selection.childId:selection?.id; if(!id) return;
-    const t=findById(tree,id); if(!t) return;
-    t.length=v;
+    if(!editNodes([id], writable=>{ (writable.get(id) as TreeNode).length=v; })) return;
     setBranchLengthInput(String(v));
-    commitTree(clone(tree), { preserveZoom: true });
     if(!opts?.keepMenu){
       setMenu({...menu,visible:false});
     }
@@ -2229,20 +5448,16 @@ export default function TreeEditor(){
     const targets = multiSelection.length ? multiSelection : (selection ? [selection] : []);
     if(!targets.length) return;
     const trimmed=(candidate ?? "").trim();
-    const updated = clone(tree);
+    const targetIds = targets.map(sel=>sel.type==='link' ? sel.childId : sel.id);
     const applyToTargets = (fn: (node: TreeNode)=>void)=>{
-      targets.forEach(sel=>{
-        const id = sel.type==='link' ? sel.childId : sel.id;
-        if(id === undefined) return;
-        const target = findById(updated, id);
-        if(!target) return;
-        fn(target);
-      });
+      editNodes(targetIds, writable=>targetIds.forEach(id=>{
+        const target = writable.get(id);
+        if(target) fn(target);
+      }));
     };
     if(!trimmed){
       applyToTargets(node=>{ delete node.__edgeWidth; });
       setBranchWidthInput(String(edgeWidth));
-      commitTree(updated, { preserveZoom: true });
       if(!opts?.keepMenu){
         setMenu({...menu,visible:false});
       }
@@ -2253,7 +5468,6 @@ export default function TreeEditor(){
     const clamped=Math.max(0.25, Math.min(12, v));
     applyToTargets(node=>{ node.__edgeWidth = clamped; });
     setBranchWidthInput(String(clamped));
-    commitTree(updated, { preserveZoom: true });
     if(!opts?.keepMenu){
       setMenu({...menu,visible:false});
     }
@@ -2261,14 +5475,12 @@ export default function TreeEditor(){
   function actionEditNodeSize(value: number | null, opts?: { keepMenu?: boolean }){
     const targets = multiSelection.length ? multiSelection : (selection ? [selection] : []);
     if(!targets.length) return;
-    const updated = clone(tree);
+    const nodeIds = targets.flatMap(sel=>sel.type==='node' ? [sel.id] : []);
     const apply = (fn: (node: TreeNode)=>void)=>{
-      targets.forEach(sel=>{
-        if(sel.type!=='node') return;
-        const target=findById(updated, sel.id);
-        if(!target) return;
-        fn(target);
-      });
+      editNodes(nodeIds, writable=>nodeIds.forEach(id=>{
+        const target=writable.get(id);
+        if(target) fn(target);
+      }));
     };
     if(value === null){
       apply(node=>{ delete node.__nodeSize; });
@@ -2278,7 +5490,6 @@ export default function TreeEditor(){
       apply(node=>{ node.__nodeSize=clamped; });
       setNodeSizeInput(String(clamped));
     }
-    commitTree(updated, { preserveZoom: true });
     if(!opts?.keepMenu){
       setMenu({...menu,visible:false});
     }
@@ -2286,16 +5497,12 @@ export default function TreeEditor(){
   function actionColorSelected(c: string){
     const targets = multiSelection.length ? multiSelection : (selection ? [selection] : []);
     if(!targets.length) return;
-    const updated = clone(tree);
-    targets.forEach(sel=>{
-      const id = sel.type==='node' ? sel.id : sel.childId;
-      if(id === undefined) return;
-      const target = findById(updated, id);
+    editNodes(targets.map(sel=>sel.type==='node' ? sel.id : sel.childId), writable=>targets.forEach(sel=>{
+      const target = writable.get(sel.type==='node' ? sel.id : sel.childId);
       if(!target) return;
       if(sel.type==='link') target.__edgeColor = c;
       else target.__color = c;
-    });
-    commitTree(updated, { preserveZoom: true });
+    }));
   }
 
 
@@ -2360,8 +5567,8 @@ export default function TreeEditor(){
       : naturalViewBox;
     const nodeXs = nodes.map(n=>n.x);
     const nodeYs = nodes.map(n=>n.y);
-    const nodeSpanX = nodeXs.length ? Math.max(...nodeXs) - Math.min(...nodeXs) : bbox.width;
-    const nodeSpanY = nodeYs.length ? Math.max(...nodeYs) - Math.min(...nodeYs) : bbox.height;
+    const nodeSpanX = nodeXs.length ? (d3.max(nodeXs) ?? 0) - (d3.min(nodeXs) ?? 0) : bbox.width;
+    const nodeSpanY = nodeYs.length ? (d3.max(nodeYs) ?? 0) - (d3.min(nodeYs) ?? 0) : bbox.height;
     const stretchedScaleX = shouldStretchGeometry ? computeAxisStretchScale(exportDimensions.width, bbox.width, nodeSpanX, pad) : 1;
     const stretchedScaleY = shouldStretchGeometry ? computeAxisStretchScale(exportDimensions.height, bbox.height, nodeSpanY, pad) : 1;
     const stretchedDx = shouldStretchGeometry ? bbox.x - bbox.x * stretchedScaleX : 0;
@@ -2451,11 +5658,76 @@ export default function TreeEditor(){
 
   // ---------- Downloads ----------
   function downloadNewick(){
+    const a=document.createElement('a');
+    a.href=URL.createObjectURL(new Blob([exportNewick],{type:'text/plain'}));
+    a.download='edited_tree.nwk';
+    a.click();
+  }
+  function downloadPhyloXml(){
+    const includeLengths = layout!=="cladogram";
+    const name = treeCollection[activeTreeIndex]?.name;
+    // Follow the [&R]/[&U] choice of the NEWICK export, then what the loaded file declared, then the shape of the root
+    const marker = newickExportOptions.rootMarker;
+    const rooted = marker === "rooted" ? true : marker === "unrooted" ? false : treeRooted;
+    const payload = toPhyloXml(tree, { name, includeLengths, rooted });
+    const a=document.createElement('a');
+    a.href=URL.createObjectURL(new Blob([payload],{type:'application/xml'}));
+    a.download='edited_tree.xml';
+    a.click();
+  }
+  function downloadNeXml(){
+    const includeLengths = layout!=="cladogram";
+    const name = treeCollection[activeTreeIndex]?.name;
+    const payload = toNeXml(tree, { name, includeLengths });
+    const a=document.createElement('a');
+    a.href=URL.createObjectURL(new Blob([payload],{type:'application/xml'}));
+    a.download='edited_tree.nexml';
+    a.click();
+  }
+  function downloadFigTreeNexus(){
     const includeLengths = layout!=="cladogram";
-    const payload = toNewick(tree, { includeLengths });
+    const name = treeCollection[activeTreeIndex]?.name;
+    const payload = toFigTreeNexus(tree, {
+      name,
+      includeLengths,
+      settings: { layout, edgeWidth, leafLabelSize, italic, showBootstrap, supportLabelSize, showBranchLen, branchLabelSize }
+    });
     const a=document.createElement('a');
     a.href=URL.createObjectURL(new Blob([payload],{type:'text/plain'}));
-    a.download='edited_tree.nwk';
+    a.download='edited_tree.nex';
+    a.click();
+  }
+  function downloadProject(){
+    const collectionEntries = treeCollection.map((entry, i)=> i === activeTreeIndex
+      ? { ...entry, tree, history: historyStack, historyIndex }
+      : entry);
+    let payload: string;
+    try{
+      payload = toProjectFile({
+        tree,
+        history: { stack: historyStack, index: historyIndex },
+        collection: { entries: collectionEntries, activeIndex: activeTreeIndex },
+        styleMappings,
+        legend: legendConfig,
+        newickExport: newickExportOptions,
+        settings: {
+          layout, edgeWidth, leafLabelSize, nodeLabelSize, branchLabelSize, branchLengthPrecision, supportLabelSize,
+          branchLenOffsetX, branchLenOffsetY, bootstrapOffsetX, bootstrapOffsetY,
+          nodeLabelOffsetX, nodeLabelOffsetY, leafLabelOffsetX, leafLabelOffsetY,
+          yGap, xScaleWidth, italic, showNodeLabels, showBranchLen, showBootstrap, showNodeDots, levelOfDetail,
+          supportComponent, supportPrecision, supportScale, supportThreshold, leafLabelTemplate,
+          leafNodeDotSize, internalNodeDotSize, scaleBarLabelSize, scaleBarLabelPosition, exportScaleBarCorner,
+          exportSizeMode, exportWidth: exportWidthInput, exportHeight: exportHeightInput, exportKeepAspect, pngScale
+        }
+      });
+    }catch(e){
+      const message = e instanceof Error ? e.message : String(e);
+      alert("Failed to save project: "+message);
+      return;
+    }
+    const a=document.createElement('a');
+    a.href=URL.createObjectURL(new Blob([payload],{type:'application/json'}));
+    a.download='edited_tree'+PROJECT_FILE_EXTENSION;
     a.click();
   }
   function downloadLeafList(){
@@ -2465,9 +5737,9 @@ export default function TreeEditor(){
     a.download='leaves.txt';
     a.click();
   }
-  async function downloadSVG(){ const result=buildStandaloneSVGBlobWithScaleBar(); if(!result) return; const a=document.createElement('a'); a.href=URL.createObjectURL(result.blob); a.download='tree.svg'; a.click(); }
+  async function downloadSVG(){ const result=withSvgTree(buildStandaloneSVGBlobWithScaleBar); if(!result) return; const a=document.createElement('a'); a.href=URL.createObjectURL(result.blob); a.download='tree.svg'; a.click(); }
   async function renderPNGCanvas(){
-    const svgResult=buildStandaloneSVGBlobWithScaleBar(); if(!svgResult) return;
+    const svgResult=withSvgTree(buildStandaloneSVGBlobWithScaleBar); if(!svgResult) return;
     const src=await svgResult.blob.text(); const { Canvg } = await import('canvg');
     const w=svgResult.width;
     const h=svgResult.height;
@@ -2486,7 +5758,7 @@ export default function TreeEditor(){
   }
   async function downloadPDF(){
     // Prefer vector output via svg2pdf.js; fall back to raster if unavailable
-    const svgResult=buildStandaloneSVGBlobWithScaleBar(); if(!svgResult) return;
+    const svgResult=withSvgTree(buildStandaloneSVGBlobWithScaleBar); if(!svgResult) return;
     const src=await svgResult.blob.text();
     const { jsPDF } = await import('jspdf');
     const PDF_FONT = 'helvetica';
@@ -2543,8 +5815,9 @@ export default function TreeEditor(){
     }
     let cancelled = false;
     let objectUrl: string | null = null;
-    const frame = requestAnimationFrame(()=>{
-      const result = buildStandaloneSVGBlobWithScaleBar();
+    // On canvas-drawn trees each preview mounts the whole SVG tree, so bursts of changes are coalesced.
+    const timer = window.setTimeout(()=>{
+      const result = withSvgTree(buildStandaloneSVGBlobWithScaleBar);
       if(!result){
         if(!cancelled) setExportPreview(null);
         return;
@@ -2555,15 +5828,17 @@ export default function TreeEditor(){
         return;
       }
       setExportPreview({ url: objectUrl, width: result.width, height: result.height });
-    });
+    }, canvasMode ? EXPORT_PREVIEW_CANVAS_DELAY_MS : 0);
     return ()=>{
       cancelled = true;
-      cancelAnimationFrame(frame);
+      window.clearTimeout(timer);
       if(objectUrl) URL.revokeObjectURL(objectUrl);
     };
   },[
     activeTab,
     buildStandaloneSVGBlobWithScaleBar,
+    withSvgTree,
+    canvasMode,
     tree,
     nodes,
     links,
@@ -2584,6 +5859,10 @@ export default function TreeEditor(){
     showNodeLabels,
     showBranchLen,
     showBootstrap,
+    supportLabelOptions,
+    leafLabelTemplate,
+    mappedStyles,
+    legendLayout,
     showNodeDotsEffective,
     leafNodeDotSize,
     internalNodeDotSize,
@@ -2607,21 +5886,195 @@ export default function TreeEditor(){
             <div className="flex gap-3 items-center flex-wrap">
               <label className={`${BUTTON_CLASSES} inline-flex items-center justify-center`}>
                 <span>{t("uploadNewick","Upload NEWICK")}</span>
-                <input type="file" accept=".nwk,.newick,.tree,.tre,.txt" className="hidden" onChange={(e)=>handleFileLoad(e.target.files)} />
+                <input type="file" accept=".nwk,.newick,.tree,.tre,.txt,.nex,.nexus,.trees,.xml,.phyloxml,.nexml,.json,.gz,.zip" className="hidden" onChange={(e)=>{ void handleFileLoad(e.target.files); e.target.value = ""; }} />
               </label>
               <button className={`${BUTTON_CLASSES} inline-flex items-center justify-center`} onClick={loadExample}>{t("loadExample","Load example")}</button>
+              <label className={`${BUTTON_CLASSES} inline-flex items-center justify-center`}>
+                <span>{t("importMetadata","Import metadata")}</span>
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.tab,.txt"
+                  className="hidden"
+                  onChange={(e)=>{ handleMetadataLoad(e.target.files); e.target.value = ""; }}
+                />
+              </label>
+              <label className={`${BUTTON_CLASSES} inline-flex items-center justify-center`}>
+                <span>{t("importItol","Import iTOL annotations")}</span>
+                <input
+                  type="file"
+                  accept=".txt,.csv,.tsv"
+                  className="hidden"
+                  onChange={(e)=>{ handleItolLoad(e.target.files); e.target.value = ""; }}
+                />
+              </label>
             </div>
+            {archivePicker && (
+              <div className="rounded-2xl border border-slate-200 bg-white/80 px-4 py-3 text-sm text-slate-700 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">{t("archivePick","Choose a tree from")} {archivePicker.archiveName}</span>
+                  <button
+                    type="button"
+                    className="text-[0.75rem] font-semibold text-[#286699] hover:text-[#17476b]"
+                    onClick={()=>setArchivePicker(null)}
+                  >
+                    {t("dismiss","Dismiss")}
+                  </button>
+                </div>
+                <div className="max-h-48 overflow-y-auto space-y-1">
+                  {archivePicker.entries.map((entry, index)=>(
+                    <button
+                      key={`${entry.name}-${index}`}
+                      type="button"
+                      className="w-full rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-left font-mono text-xs text-slate-700 hover:border-[#286699] hover:text-[#286699]"
+                      onClick={()=>{ setArchivePicker(null); void loadTreeFileEntry(entry, archivePicker.applyNewick); }}
+                    >
+                      {entry.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            {itolReport && (
+              <div className="rounded-2xl border border-slate-200 bg-white/80 px-4 py-3 text-sm text-slate-700 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">{t("itolReport","iTOL import")} · {itolReport.template}</span>
+                  <button
+                    type="button"
+                    className="text-[0.75rem] font-semibold text-[#286699] hover:text-[#17476b]"
+                    onClick={()=>setItolReport(null)}
+                  >
+                    {t("dismiss","Dismiss")}
+                  </button>
+                </div>
+                <p>{t("itolApplied","Applied lines")}: {itolReport.applied}</p>
+                {itolReport.ranges > 0 && (
+                  <p className="text-xs text-slate-500">{t("itolRangesApproximated","Ranges are shown by coloring the branches of each range's subtree; shaded range boxes are not drawn.")} ({itolReport.ranges})</p>
+                )}
+                {itolReport.unmatched.length > 0 && (
+                  <details>
+                    <summary className="cursor-pointer text-amber-700">{t("itolUnmatched","IDs not found in the tree")} ({itolReport.unmatched.length})</summary>
+                    <p className="mt-1 max-h-24 overflow-y-auto break-words text-xs text-slate-600">{itolReport.unmatched.join(", ")}</p>
+                  </details>
+                )}
+              </div>
+            )}
+            {metadataReport && (
+              <div className="rounded-2xl border border-slate-200 bg-white/80 px-4 py-3 text-sm text-slate-700 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">{t("metadataReport","Metadata import")}</span>
+                  <button
+                    type="button"
+                    className="text-[0.75rem] font-semibold text-[#286699] hover:text-[#17476b]"
+                    onClick={()=>setMetadataReport(null)}
+                  >
+                    {t("dismiss","Dismiss")}
+                  </button>
+                </div>
+                <p>
+                  {t("metadataMatched","Matched tips")}: {metadataReport.matchedTips} / {metadataReport.totalTips} · {t("metadataKeyColumn","Key column")}: <span className="font-semibold">{metadataReport.keyColumn}</span>
+                </p>
+                <p>{t("metadataColumns","Columns")}: {metadataReport.columns.join(", ") || "—"}</p>
+                {metadataReport.unmatchedRows.length > 0 && (
+                  <details>
+                    <summary className="cursor-pointer text-amber-700">{t("metadataUnmatchedRows","Rows without a matching tip")} ({metadataReport.unmatchedRows.length})</summary>
+                    <p className="mt-1 max-h-24 overflow-y-auto break-words text-xs text-slate-600">{metadataReport.unmatchedRows.join(", ")}</p>
+                  </details>
+                )}
+                {metadataReport.unmatchedTips.length > 0 && (
+                  <details>
+                    <summary className="cursor-pointer text-amber-700">{t("metadataUnmatchedTips","Tips without metadata")} ({metadataReport.unmatchedTips.length})</summary>
+                    <p className="mt-1 max-h-24 overflow-y-auto break-words text-xs text-slate-600">{metadataReport.unmatchedTips.join(", ")}</p>
+                  </details>
+                )}
+              </div>
+            )}
             <p className="text-sm text-slate-600">{t("uploadHelper","Uploaded text appears below.")}</p>
             <div className="space-y-1">
               <textarea
-                className={`${INPUT_CLASSES} w-full h-20 resize-y ${newickWarning ? "border-red-500 focus:ring-red-400" : ""}`}
+                ref={rawTextareaRef}
+                className={`${INPUT_CLASSES} w-full h-20 resize-y ${newickErrors.length ? "border-red-500 focus:ring-red-400" : newickDiagnostics.length ? "border-amber-400 focus:ring-amber-300" : ""}`}
                 placeholder="Paste NEWICK string"
                 value={rawText}
                 onChange={(e)=>setRawText(e.target.value)}
               />
-              {newickWarning && <p className="text-sm font-semibold text-red-600 whitespace-pre-line">{newickWarning}</p>}
+              {newickDiagnostics.length > 0 && (
+                <ul className="space-y-2">
+                  {newickDiagnostics.slice(0, 5).map((diagnostic, index)=>{
+                    const isError = diagnostic.severity === "error";
+                    const lineText = rawText.split("\n")[diagnostic.line - 1] ?? "";
+                    const from = Math.max(0, diagnostic.column - 1 - 30);
+                    const markStart = diagnostic.column - 1;
+                    const markEnd = Math.min(lineText.length, markStart + Math.max(1, diagnostic.end - diagnostic.start));
+                    return (
+                      <li
+                        key={`${diagnostic.start}-${index}`}
+                        className={`rounded-xl border px-3 py-2 text-sm ${isError ? "border-red-200 bg-red-50 text-red-700" : "border-amber-200 bg-amber-50 text-amber-800"}`}
+                      >
+                        <div className="flex items-start justify-between gap-2">
+                          <span className="font-semibold">
+                            {isError ? t("newickError","Error") : t("newickWarning","Warning")} · {t("lineLabel","Line")} {diagnostic.line}, {t("columnLabel","column")} {diagnostic.column}: {diagnostic.message}
+                          </span>
+                          <button
+                            type="button"
+                            className="shrink-0 text-[0.75rem] font-semibold text-[#286699] hover:text-[#17476b]"
+                            onClick={()=>jumpToNewickDiagnostic(diagnostic)}
+                          >
+                            {t("jumpToError","Jump to error")}
+                          </button>
+                        </div>
+                        {lineText && (
+                          <pre className="mt-1 overflow-x-auto whitespace-pre font-mono text-xs text-slate-700">
+                            {from > 0 ? "…" : ""}{lineText.slice(from, markStart)}
+                            <mark className={isError ? "bg-red-200 text-red-900" : "bg-amber-200 text-amber-900"}>{lineText.slice(markStart, markEnd) || " "}</mark>
+                            {lineText.slice(markEnd, markEnd + 30)}{markEnd + 30 < lineText.length ? "…" : ""}
+                          </pre>
+                        )}
+                        {diagnostic.hint && <p className="mt-1 text-xs">{diagnostic.hint}</p>}
+                      </li>
+                    );
+                  })}
+                  {newickDiagnostics.length > 5 && (
+                    <li className="text-xs text-slate-500">+{newickDiagnostics.length - 5} {t("moreDiagnostics","more")}</li>
+                  )}
+                </ul>
+              )}
             </div>
-            <button className={`${BUTTON_CLASSES} w-full`} onClick={applyText}>{t("applyNewick","Apply NEWICK")}</button>
+            <button className={`${BUTTON_CLASSES} w-full`} onClick={()=>{ void applyText(); }}>{t("applyNewick","Apply NEWICK")}</button>
+            {treeCollection.length > 1 && (
+              <div className="rounded-2xl border border-slate-200 bg-white/80 px-4 py-3 text-sm text-slate-700 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">{t("treeCollection","Tree collection")}</span>
+                  <span className="text-xs text-slate-500">{activeTreeIndex + 1} / {treeCollection.length}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    className="rounded-full border border-slate-200 bg-white px-3 py-1 text-sm font-semibold text-slate-600 disabled:opacity-40 disabled:cursor-not-allowed"
+                    onClick={()=>selectCollectionTree(activeTreeIndex - 1)}
+                    disabled={activeTreeIndex <= 0}
+                    aria-label={t("previousTree","Previous tree")}
+                  >
+                    ←
+                  </button>
+                  <select
+                    className={`${INPUT_CLASSES} flex-1 min-w-0 text-sm`}
+                    value={activeTreeIndex}
+                    onChange={(e)=>selectCollectionTree(Number(e.target.value))}
+                  >
+                    {treeCollectionSummaries.map((summary, index)=>(
+                      <option key={index} value={index}>{`${index + 1}. ${summary.name} (${summary.tips} ${t("tips","Leaves").toLowerCase()})`}</option>
+                    ))}
+                  </select>
+                  <button
+                    className="rounded-full border border-slate-200 bg-white px-3 py-1 text-sm font-semibold text-slate-600 disabled:opacity-40 disabled:cursor-not-allowed"
+                    onClick={()=>selectCollectionTree(activeTreeIndex + 1)}
+                    disabled={activeTreeIndex >= treeCollection.length - 1}
+                    aria-label={t("nextTree","Next tree")}
+                  >
+                    →
+                  </button>
+                </div>
+              </div>
+            )}
             {newickStats && (
               <div className="rounded-2xl border border-slate-200 bg-slate-50/80 px-4 py-3 text-sm text-slate-700">
                 <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">{t("statsTitle","Current tree stats")}</div>
@@ -2825,6 +6278,108 @@ export default function TreeEditor(){
                 </div>
               )}
             </div>
+            <div className="pt-3 border-t border-slate-200 space-y-2">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">{t("orderSection","Order children")}</span>
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  className={`${INPUT_CLASSES} text-sm`}
+                  value={childOrder.key}
+                  onChange={(e)=>{ const key = e.target.value as ChildSortKey; setChildOrder(prev=>({ ...prev, key })); }}
+                >
+                  <option value="size">{t("orderBySize","Clade size (ladderize)")}</option>
+                  <option value="name">{t("orderByName","First tip name")}</option>
+                  <option value="metadata" disabled={!metadataColumns.length}>{t("orderByMetadata","Metadata column")}</option>
+                  <option value="length">{t("orderByLength","Branch length")}</option>
+                </select>
+                <select
+                  className={`${INPUT_CLASSES} text-sm`}
+                  value={childOrder.descending ? "descending" : "ascending"}
+                  onChange={(e)=>{ const descending = e.target.value === "descending"; setChildOrder(prev=>({ ...prev, descending })); }}
+                >
+                  <option value="ascending">{t("orderAscending","Ascending")}</option>
+                  <option value="descending">{t("orderDescending","Descending")}</option>
+                </select>
+                {childOrder.key === "metadata" && (
+                  <select
+                    className={`${INPUT_CLASSES} col-span-2 text-sm`}
+                    value={childOrder.column && metadataColumns.includes(childOrder.column) ? childOrder.column : (metadataColumns[0] ?? "")}
+                    onChange={(e)=>{ const column = e.target.value; setChildOrder(prev=>({ ...prev, column })); }}
+                  >
+                    {metadataColumns.map(column=>(
+                      <option key={column} value={column}>{column}</option>
+                    ))}
+                  </select>
+                )}
+                <button className={`${BUTTON_CLASSES} text-sm`} onClick={()=>actionOrderChildren("tree")}>
+                  {t("orderWholeTree","Sort whole tree")}
+                </button>
+                <button
+                  className={`${BUTTON_CLASSES} text-sm ${!selectedSubtreeSortable ? "opacity-40 cursor-not-allowed" : ""}`}
+                  onClick={()=>actionOrderChildren("selection")}
+                  disabled={!selectedSubtreeSortable}
+                >
+                  {t("orderSelectedSubtree","Sort selected subtree")}
+                </button>
+              </div>
+              <p className="text-xs text-slate-500">{t("orderHint","Ascending puts smaller clades, earlier names and lower values at the top. Tips without a value go last.")}</p>
+            </div>
+            <div className="pt-3 border-t border-slate-200 space-y-2">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">{t("polytomySection","Collapse into polytomies")}</span>
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="number"
+                  className={`${INPUT_CLASSES} text-sm`}
+                  step="any"
+                  placeholder={t("polytomySupportPlaceholder","Support below")}
+                  value={polytomySupportInput}
+                  onChange={(e)=>setPolytomySupportInput(e.target.value)}
+                />
+                <button
+                  className={`${BUTTON_CLASSES} text-sm ${!supportComponentCount || !polytomySupportInput.trim() ? "opacity-40 cursor-not-allowed" : ""}`}
+                  onClick={()=>actionCollapsePolytomies("support")}
+                  disabled={!supportComponentCount || !polytomySupportInput.trim()}
+                >
+                  {t("polytomyBySupport","Collapse by support")}
+                </button>
+                {supportComponentCount > 1 && (
+                  <select
+                    className={`${INPUT_CLASSES} col-span-2 text-sm`}
+                    value={Math.min(polytomySupportComponent, supportComponentCount - 1)}
+                    onChange={(e)=>setPolytomySupportComponent(Number(e.target.value))}
+                  >
+                    {Array.from({ length: supportComponentCount }, (_, index)=>(
+                      <option key={index} value={index}>{t("supportComponentItem","Value")} {index + 1}</option>
+                    ))}
+                  </select>
+                )}
+                <input
+                  type="number"
+                  className={`${INPUT_CLASSES} text-sm`}
+                  min={0}
+                  step="any"
+                  placeholder={t("polytomyLengthPlaceholder","Length below")}
+                  value={polytomyLengthInput}
+                  onChange={(e)=>setPolytomyLengthInput(e.target.value)}
+                />
+                <button
+                  className={`${BUTTON_CLASSES} text-sm ${!polytomyLengthInput.trim() ? "opacity-40 cursor-not-allowed" : ""}`}
+                  onClick={()=>actionCollapsePolytomies("length")}
+                  disabled={!polytomyLengthInput.trim()}
+                >
+                  {t("polytomyByLength","Collapse short branches")}
+                </button>
+              </div>
+              {polytomyReport && (
+                <p className="text-xs text-slate-600">
+                  {polytomyReport.contracted
+                    ? `${t("polytomyContracted","Branches contracted")}: ${polytomyReport.contracted}`
+                    : (polytomyReport.by === "support"
+                      ? t("polytomyNoneBySupport","No internal branch has support below the threshold.")
+                      : t("polytomyNoneByLength","No internal branch is shorter than the threshold."))}
+                </p>
+              )}
+              <p className="text-xs text-slate-500">{t("polytomyHint","Contracts internal branches whose support (in the file's scale) or length is below the threshold; their subtrees join the parent node. The removed branch's length is added to each subtree's stem, so root-to-tip distances are kept. Branches without a value are left alone, and Undo restores the tree.")}</p>
+            </div>
           </div>
         );
       case "rendering":
@@ -2855,6 +6410,22 @@ export default function TreeEditor(){
             <div className="flex items-center justify-between gap-3"><label className="text-slate-600">{t("leafLabelSize","Leaf label size")}</label>
               <input type="number" className={`${INPUT_CLASSES} w-24`} value={leafLabelSize} onChange={(e)=>setLeafLabelSize(parseFloat(e.target.value)||15)} />
             </div>
+            <div className="space-y-1">
+              <div className="flex items-center justify-between gap-3">
+                <label className="text-slate-600">{t("leafLabelTemplate","Leaf label template")}</label>
+                <input
+                  className={`${INPUT_CLASSES} w-40`}
+                  placeholder="{name}"
+                  value={leafLabelTemplate}
+                  onChange={(e)=>setLeafLabelTemplate(e.target.value)}
+                />
+              </div>
+              {metadataColumns.length > 0 && (
+                <p className="text-xs text-slate-500">
+                  {t("leafLabelTemplateHelp","Placeholders")}: {["name", ...metadataColumns].map(column=>`{${column}}`).join(" ")}
+                </p>
+              )}
+            </div>
             <div className="flex items-center justify-between gap-3">
               <label className="text-slate-600">{t("leafOffset","Leaf offset")}</label>
               <div className="flex items-center gap-2">
@@ -2898,6 +6469,13 @@ export default function TreeEditor(){
                 }}
               />
             </div>
+            <div className="space-y-1">
+              <label className="flex items-center gap-2 text-slate-600">
+                <input type="checkbox" checked={levelOfDetail} onChange={(e)=>setLevelOfDetail(e.target.checked)} />
+                <span>{t("levelOfDetail","Simplify when zoomed out")}</span>
+              </label>
+              <p className="text-xs text-slate-500">{t("levelOfDetailHint","Hides leaf labels that would overlap and draws tightly packed clades as triangles until you zoom in. Exports always show the full tree.")}</p>
+            </div>
             <div className="pt-3 border-t border-slate-200 space-y-3">
               <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">{t("showSection","Show")}</span>
               <div className="space-y-3">
@@ -3009,6 +6587,59 @@ export default function TreeEditor(){
                         <span>Text size</span>
                         <input type="number" className={`${INPUT_CLASSES} w-20`} value={supportLabelSize} onChange={(e)=>setSupportLabelSize(parseFloat(e.target.value)||15)} />
                       </div>
+                      <div className="flex items-center justify-between gap-3">
+                        <span>{t("supportComponent","Component")}</span>
+                        <select
+                          className={`${INPUT_CLASSES} w-40`}
+                          value={supportComponent}
+                          onChange={(e)=>setSupportComponent(parseInt(e.target.value, 10))}
+                        >
+                          <option value={-1}>{t("supportAllComponents","All (e.g. 95/0.98)")}</option>
+                          {Array.from({ length: Math.max(supportComponentCount, supportComponent + 1) }, (_, index)=>(
+                            <option key={index} value={index}>{t("supportComponentItem","Value")} {index + 1}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="flex items-center justify-between gap-3">
+                        <span>{t("supportScale","Scale")}</span>
+                        <select
+                          className={`${INPUT_CLASSES} w-40`}
+                          value={supportScale}
+                          onChange={(e)=>setSupportScale(e.target.value as SupportScale)}
+                        >
+                          <option value="original">{t("supportScaleOriginal","As in file")}</option>
+                          <option value="fraction">0–1</option>
+                          <option value="percent">0–100</option>
+                        </select>
+                      </div>
+                      <div className="flex items-center justify-between gap-3">
+                        <span>{t("supportPrecision","Decimal places")}</span>
+                        <input
+                          type="number"
+                          className={`${INPUT_CLASSES} w-20`}
+                          value={supportPrecision}
+                          min={0}
+                          max={6}
+                          step={1}
+                          onChange={(e)=>{
+                            const next=parseFloat(e.target.value);
+                            setSupportPrecision(Number.isFinite(next)?next:2);
+                          }}
+                        />
+                      </div>
+                      <div className="flex items-center justify-between gap-3">
+                        <span>{t("supportThreshold","Hide below")}</span>
+                        <input
+                          type="number"
+                          className={`${INPUT_CLASSES} w-20`}
+                          value={supportThreshold}
+                          step="any"
+                          onChange={(e)=>{
+                            const next=parseFloat(e.target.value);
+                            setSupportThreshold(Number.isFinite(next)?next:0);
+                          }}
+                        />
+                      </div>
                       <div className="flex items-center justify-between gap-3">
                         <span>Offset</span>
                         <div className="flex items-center gap-2">
@@ -3039,6 +6670,198 @@ export default function TreeEditor(){
                     </div>
                   )}
                 </div>
+                <div className="rounded-2xl border border-slate-200 p-3 bg-white/80 shadow-sm space-y-3">
+                  <div className="text-slate-700 font-medium">{t("attributeStyling","Attribute styling")}</div>
+                  {metadataColumns.length === 0 ? (
+                    <p className="text-sm text-slate-500">{t("attributeStylingEmpty","Import metadata in the Data tab to style tips by attribute.")}</p>
+                  ) : (
+                    <div className="space-y-3 text-sm text-slate-600">
+                      {STYLE_CHANNELS.map(channel=>{
+                        const mapping = styleMappings[channel];
+                        const detail = styleMappingDetails[channel];
+                        return (
+                          <div key={channel} className="space-y-2">
+                            <div className="flex items-center justify-between gap-3">
+                              <span>{styleChannelLabel(channel)}</span>
+                              <select
+                                className={`${INPUT_CLASSES} w-40`}
+                                value={mapping?.column ?? ""}
+                                onChange={(e)=>{
+                                  const column = e.target.value;
+                                  if(!column){
+                                    updateStyleMapping(channel, null);
+                                    return;
+                                  }
+                                  const values = collectMetadataValues(tree, column);
+                                  const continuous = isColorChannel(channel) && isNumericValues(values) && values.length > 10;
+                                  updateStyleMapping(channel, { column, continuous, overrides: {} });
+                                }}
+                              >
+                                <option value="">{t("styleNone","None")}</option>
+                                {metadataColumns.map(column=>(
+                                  <option key={column} value={column}>{column}</option>
+                                ))}
+                              </select>
+                            </div>
+                            {mapping && detail && (
+                              <div className="space-y-2 pl-2 border-l-2 border-slate-100">
+                                {isColorChannel(channel) && detail.numeric && (
+                                  <label className="flex items-center gap-2">
+                                    <input
+                                      type="checkbox"
+                                      checked={mapping.continuous}
+                                      onChange={(e)=>updateStyleMapping(channel, { ...mapping, continuous: e.target.checked })}
+                                    />
+                                    <span>{t("styleContinuous","Continuous scale")}</span>
+                                  </label>
+                                )}
+                                {mapping.continuous && isColorChannel(channel) && detail.numeric ? (
+                                  <div className="flex items-center gap-2 text-xs">
+                                    <span>{detail.values[0]}</span>
+                                    <span
+                                      className="h-3 flex-1 rounded"
+                                      style={{ background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map(v=>d3.interpolateViridis(v)).join(", ")})` }}
+                                    />
+                                    <span>{detail.values[detail.values.length - 1]}</span>
+                                  </div>
+                                ) : (
+                                  <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+                                    {detail.values.slice(0, MAX_STYLE_CATEGORIES).map(value=>{
+                                      const current = detail.scale(value) ?? "";
+                                      const setOverride = (next: string)=>updateStyleMapping(channel, { ...mapping, overrides: { ...mapping.overrides, [value]: next } });
+                                      return (
+                                        <div key={value} className="flex items-center justify-between gap-2">
+                                          <span className="truncate" title={value}>{value}</span>
+                                          {channel === "tipShape" ? (
+                                            <select className={`${INPUT_CLASSES} w-28 py-1 text-sm`} value={current} onChange={(e)=>setOverride(e.target.value)}>
+                                              {TIP_SHAPES.map(shape=>(
+                                                <option key={shape} value={shape}>{tipShapeLabel(shape)}</option>
+                                              ))}
+                                            </select>
+                                          ) : channel === "labelBold" ? (
+                                            <input type="checkbox" checked={current === "bold"} onChange={(e)=>setOverride(e.target.checked ? "bold" : "normal")} />
+                                          ) : (
+                                            <input type="color" className="h-7 w-10 cursor-pointer rounded border border-slate-200" value={current} onChange={(e)=>setOverride(e.target.value)} />
+                                          )}
+                                        </div>
+                                      );
+                                    })}
+                                    {detail.values.length > MAX_STYLE_CATEGORIES && (
+                                      <p className="text-xs text-slate-500">{t("styleTooManyCategories","Only the first categories are styled")} ({MAX_STYLE_CATEGORIES} / {detail.values.length})</p>
+                                    )}
+                                  </div>
+                                )}
+                                {Object.keys(mapping.overrides).length > 0 && (
+                                  <button
+                                    type="button"
+                                    className="text-[0.75rem] font-semibold text-[#286699] hover:text-[#17476b]"
+                                    onClick={()=>updateStyleMapping(channel, { ...mapping, overrides: {} })}
+                                  >
+                                    {t("styleResetOverrides","Reset to automatic palette")}
+                                  </button>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+                <div className="rounded-2xl border border-slate-200 p-3 bg-white/80 shadow-sm space-y-3">
+                  <label className="flex items-center gap-2 text-slate-700 font-medium">
+                    <input type="checkbox" checked={legendConfig.visible} onChange={(e)=>updateLegendConfig({ visible: e.target.checked })} />
+                    <span>{t("legend","Legend")}</span>
+                  </label>
+                  {legendConfig.visible && (
+                    <div className="space-y-3 text-sm text-slate-600 pl-1">
+                      {legendSections.length === 0 && (
+                        <p className="text-slate-500">{t("legendEmpty","Map a metadata column to a color or shape, or color nodes by hand, to build a legend.")}</p>
+                      )}
+                      <div className="flex items-center justify-between gap-3">
+                        <span>Text size</span>
+                        <input
+                          type="number"
+                          className={`${INPUT_CLASSES} w-20`}
+                          value={legendConfig.fontSize}
+                          min={6}
+                          onChange={(e)=>{
+                            const next=parseFloat(e.target.value);
+                            updateLegendConfig({ fontSize: Number.isFinite(next) && next > 0 ? next : DEFAULT_LEGEND_CONFIG.fontSize });
+                          }}
+                        />
+                      </div>
+                      {legendConfig.position && (
+                        <button
+                          type="button"
+                          className="text-[0.75rem] font-semibold text-[#286699] hover:text-[#17476b]"
+                          onClick={()=>updateLegendConfig({ position: null })}
+                        >
+                          {t("legendResetPosition","Reset legend position")}
+                        </button>
+                      )}
+                      {legendSections.map(section=>{
+                        const hidden = legendConfig.hidden.includes(section.id);
+                        const keys = section.items.map(item=>item.key);
+                        return (
+                          <div key={section.id} className="space-y-2 border-t border-slate-100 pt-2">
+                            <div className="flex items-center gap-2">
+                              <input
+                                type="checkbox"
+                                checked={!hidden}
+                                aria-label={t("legendShowSection","Show section")}
+                                onChange={(e)=>updateLegendConfig({
+                                  hidden: e.target.checked ? legendConfig.hidden.filter(id=>id!==section.id) : [...legendConfig.hidden, section.id]
+                                })}
+                              />
+                              <input
+                                className={`${INPUT_CLASSES} flex-1 py-1 text-sm`}
+                                value={section.title}
+                                onChange={(e)=>updateLegendConfig({ titles: { ...legendConfig.titles, [section.id]: e.target.value } })}
+                              />
+                            </div>
+                            {!hidden && section.items.length > 0 && (
+                              <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+                                {section.items.map((item, index)=>(
+                                  <div key={item.key} className="flex items-center gap-1">
+                                    <input
+                                      className={`${INPUT_CLASSES} flex-1 py-1 text-sm`}
+                                      value={item.label}
+                                      onChange={(e)=>updateLegendConfig({
+                                        labels: { ...legendConfig.labels, [section.id]: { ...(legendConfig.labels[section.id] ?? {}), [item.key]: e.target.value } }
+                                      })}
+                                    />
+                                    <button
+                                      type="button"
+                                      className="rounded border border-slate-200 px-2 py-1 text-xs disabled:opacity-40"
+                                      disabled={index === 0}
+                                      aria-label={t("moveUp","Move up")}
+                                      onClick={()=>moveLegendItem(section.id, keys, index, -1)}
+                                    >
+                                      ↑
+                                    </button>
+                                    <button
+                                      type="button"
+                                      className="rounded border border-slate-200 px-2 py-1 text-xs disabled:opacity-40"
+                                      disabled={index === keys.length - 1}
+                                      aria-label={t("moveDown","Move down")}
+                                      onClick={()=>moveLegendItem(section.id, keys, index, 1)}
+                                    >
+                                      ↓
+                                    </button>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                      {legendSections.length > 0 && (
+                        <p className="text-xs text-slate-500">{t("legendDragHint","Drag the legend on the canvas to move it.")}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
                 <div className="rounded-2xl border border-slate-200 p-3 bg-white/80 shadow-sm space-y-3">
                   <label className="flex items-center gap-2 text-slate-700 font-medium">
                     <input type="checkbox" checked={showNodeDots} onChange={(e)=>setShowNodeDots(e.target.checked)} />
@@ -3120,7 +6943,11 @@ export default function TreeEditor(){
               <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">{t("textExports","Text exports")}</div>
               <div className="grid grid-cols-2 gap-2">
                 <button className={BUTTON_CLASSES} onClick={downloadNewick}>NEWICK</button>
+                <button className={BUTTON_CLASSES} onClick={downloadPhyloXml}>PhyloXML</button>
+                <button className={BUTTON_CLASSES} onClick={downloadNeXml}>NeXML</button>
+                <button className={BUTTON_CLASSES} onClick={downloadFigTreeNexus}>{t("figTreeNexus","NEXUS (FigTree)")}</button>
                 <button className={BUTTON_CLASSES} onClick={downloadLeafList}>{t("leafList","Leaf list")}</button>
+                <button className={`${BUTTON_CLASSES} col-span-2`} onClick={downloadProject}>{t("saveProject","Save project")}</button>
               </div>
               <div className="space-y-2">
                 <div className="flex items-center justify-between text-xs uppercase tracking-wide text-slate-500">
@@ -3137,9 +6964,120 @@ export default function TreeEditor(){
                   ref={newickTextareaRef}
                   className={`${INPUT_CLASSES} w-full h-24 font-mono text-xs bg-white`}
                   readOnly
-                  value={currentNewick}
+                  value={exportNewick}
                 />
               </div>
+              <div className="rounded-2xl border border-slate-200 bg-white/80 p-3 space-y-3 text-sm text-slate-600">
+                <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">{t("newickOptions","NEWICK options")}</div>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={newickExportOptions.includeLengths && layout!=="cladogram"}
+                    disabled={layout==="cladogram"}
+                    onChange={(e)=>updateNewickExportOptions({ includeLengths: e.target.checked })}
+                  />
+                  <span>{t("newickIncludeLengths","Branch lengths")}</span>
+                  {layout==="cladogram" && <span className="text-xs text-slate-400">({t("newickCladogramNoLengths","not written for cladograms")})</span>}
+                </label>
+                <div className="flex items-center justify-between gap-3">
+                  <span>{t("newickLengthFormat","Length format")}</span>
+                  <div className="flex items-center gap-2">
+                    <select
+                      className={`${INPUT_CLASSES} w-32`}
+                      value={newickExportOptions.lengthFormat}
+                      onChange={(e)=>updateNewickExportOptions({ lengthFormat: e.target.value as NewickExportOptions["lengthFormat"] })}
+                    >
+                      <option value="fixed">{t("newickLengthFixed","Decimal")}</option>
+                      <option value="scientific">{t("newickLengthScientific","Scientific")}</option>
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      max={12}
+                      step={1}
+                      className={`${INPUT_CLASSES} w-20`}
+                      title={t("newickLengthPrecision","Decimal places")}
+                      value={newickExportOptions.lengthPrecision}
+                      onChange={(e)=>{
+                        const value = parseInt(e.target.value, 10);
+                        if(Number.isFinite(value)) updateNewickExportOptions({ lengthPrecision: Math.min(12, Math.max(0, value)) });
+                      }}
+                    />
+                  </div>
+                </div>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={newickExportOptions.includeInternalNames} onChange={(e)=>updateNewickExportOptions({ includeInternalNames: e.target.checked })} />
+                  <span>{t("newickInternalNames","Internal node names")}</span>
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={newickExportOptions.includeSupports} onChange={(e)=>updateNewickExportOptions({ includeSupports: e.target.checked })} />
+                  <span>{t("newickSupports","Support values")}</span>
+                </label>
+                <div className="flex items-center justify-between gap-3">
+                  <span>{t("supportComponent","Component")}</span>
+                  <select
+                    className={`${INPUT_CLASSES} w-40`}
+                    value={newickExportOptions.supportComponent}
+                    disabled={!newickExportOptions.includeSupports}
+                    onChange={(e)=>updateNewickExportOptions({ supportComponent: parseInt(e.target.value, 10) })}
+                  >
+                    <option value={-1}>{t("supportAllComponents","All (e.g. 95/0.98)")}</option>
+                    {Array.from({ length: Math.max(supportComponentCount, newickExportOptions.supportComponent + 1) }, (_, index)=>(
+                      <option key={index} value={index}>{t("supportComponentItem","Value")} {index + 1}</option>
+                    ))}
+                  </select>
+                </div>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={newickExportOptions.includeAnnotations} onChange={(e)=>updateNewickExportOptions({ includeAnnotations: e.target.checked })} />
+                  <span>{t("newickAnnotations","NHX / BEAST annotations")}</span>
+                </label>
+                <div className="flex items-center justify-between gap-3">
+                  <span>{t("newickQuoting","Label quoting")}</span>
+                  <select
+                    className={`${INPUT_CLASSES} w-40`}
+                    value={newickExportOptions.quoting}
+                    onChange={(e)=>updateNewickExportOptions({ quoting: e.target.value as NewickQuoting })}
+                  >
+                    <option value="auto">{t("newickQuotingAuto","When needed")}</option>
+                    <option value="always">{t("newickQuotingAlways","Always")}</option>
+                    <option value="never">{t("newickQuotingNever","Never (replace with _)")}</option>
+                  </select>
+                </div>
+                <div className="flex items-center justify-between gap-3">
+                  <span>{t("newickRootMarker","Root marker")}</span>
+                  <select
+                    className={`${INPUT_CLASSES} w-40`}
+                    value={newickExportOptions.rootMarker}
+                    onChange={(e)=>updateNewickExportOptions({ rootMarker: e.target.value as NewickExportOptions["rootMarker"] })}
+                  >
+                    <option value="none">{t("newickRootNone","None")}</option>
+                    <option value="rooted">[&amp;R]</option>
+                    <option value="unrooted">[&amp;U]</option>
+                  </select>
+                </div>
+                <div className="flex items-center justify-between gap-3">
+                  <span>{t("newickCollapsed","Collapsed clades")}</span>
+                  <select
+                    className={`${INPUT_CLASSES} w-40`}
+                    value={newickExportOptions.collapsedClades}
+                    onChange={(e)=>updateNewickExportOptions({ collapsedClades: e.target.value as NewickExportOptions["collapsedClades"] })}
+                  >
+                    <option value="expanded">{t("newickCollapsedExpanded","Write expanded")}</option>
+                    <option value="placeholder">{t("newickCollapsedPlaceholder","Single tip")}</option>
+                  </select>
+                </div>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={newickExportOptions.nameEmptyLeaves} onChange={(e)=>updateNewickExportOptions({ nameEmptyLeaves: e.target.checked })} />
+                  <span>{t("newickNameEmptyLeaves","Name empty leaves \"Unnamed\"")}</span>
+                </label>
+                <button
+                  type="button"
+                  className="text-[0.75rem] font-semibold text-[#286699] hover:text-[#17476b]"
+                  onClick={()=>setNewickExportOptions(DEFAULT_NEWICK_EXPORT_OPTIONS)}
+                >
+                  {t("resetDefaults","Reset to defaults")}
+                </button>
+              </div>
             </div>
               <div className="space-y-3 pt-1">
                 <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">{t("imageExports","Image exports")}</div>
@@ -3318,7 +7256,7 @@ export default function TreeEditor(){
   };
 
   const handleRootMouseDownCapture = useCallback((e: React.MouseEvent<HTMLDivElement>)=>{
-    if(!menu.visible && !searchPopoverOpen){
+    if(!menu.visible && !searchPopoverOpen && !rootingPopoverOpen && !prunePopoverOpen){
       miniWindowMouseDownInsideRef.current = false;
       return;
     }
@@ -3328,9 +7266,11 @@ export default function TreeEditor(){
       return;
     }
     const startedInSearch = searchPopoverRef.current?.contains(target) ?? false;
+    const startedInRooting = rootingPopoverRef.current?.contains(target) ?? false;
+    const startedInPrune = prunePopoverRef.current?.contains(target) ?? false;
     const startedInMenu = selectionMenuRef.current?.contains(target) ?? false;
-    miniWindowMouseDownInsideRef.current = startedInSearch || startedInMenu;
-  },[menu.visible, searchPopoverOpen]);
+    miniWindowMouseDownInsideRef.current = startedInSearch || startedInRooting || startedInPrune || startedInMenu;
+  },[menu.visible, searchPopoverOpen, rootingPopoverOpen, prunePopoverOpen]);
 
   const handleRootClick = useCallback(()=>{
     if(miniWindowMouseDownInsideRef.current){
@@ -3343,7 +7283,13 @@ export default function TreeEditor(){
     if(searchPopoverOpen){
       setSearchPopoverOpen(false);
     }
-  },[menu.visible, searchPopoverOpen]);
+    if(rootingPopoverOpen){
+      setRootingPopoverOpen(false);
+    }
+    if(prunePopoverOpen){
+      setPrunePopoverOpen(false);
+    }
+  },[menu.visible, searchPopoverOpen, rootingPopoverOpen, prunePopoverOpen]);
 
   return (
     <div
@@ -3452,6 +7398,7 @@ export default function TreeEditor(){
           ref={rightPaneRef}
           className={rightPaneClass}
           onClick={handleCanvasBackgroundClick}
+          onScroll={()=>{ updateCullWindow(); requestCanvasDraw(); }}
           style={rightPaneInlineStyle}
         >
           <div className="flex h-full flex-col gap-4">
@@ -3481,11 +7428,23 @@ export default function TreeEditor(){
                 <button
                   type="button"
                   className="relative flex h-12 w-12 items-center justify-center rounded-full border border-transparent bg-transparent text-slate-700 transition hover:bg-[#dba633]/10 active:translate-y-[1px] focus:outline-none"
-                  onClick={(e)=>{ e.stopPropagation(); setSearchPopoverOpen(v=>!v); }}
+                  onClick={(e)=>{ e.stopPropagation(); setSearchPopoverOpen(v=>!v); setRootingPopoverOpen(false); setPrunePopoverOpen(false); }}
                   aria-label={t("searchLeaves","Search leaves")}
                 >
                   <IconSearch />
                 </button>
+                <button
+                  className={`${SECONDARY_BUTTON_CLASSES} text-base`}
+                  onClick={(e)=>{ e.stopPropagation(); setRootingPopoverOpen(v=>!v); setSearchPopoverOpen(false); setPrunePopoverOpen(false); }}
+                >
+                  {t("autoRoot","Root")}
+                </button>
+                <button
+                  className={`${SECONDARY_BUTTON_CLASSES} text-base`}
+                  onClick={(e)=>{ e.stopPropagation(); setPrunePopoverOpen(v=>!v); setSearchPopoverOpen(false); setRootingPopoverOpen(false); }}
+                >
+                  {t("pruneTips","Prune")}
+                </button>
                 <button
                   className={`${BUTTON_CLASSES} text-base`}
                   onClick={(e)=>{
@@ -3569,6 +7528,182 @@ export default function TreeEditor(){
                   <span className="text-slate-700 w-10 text-right text-sm">{Math.round(yGap)}</span>
                 </label>
               </div>
+              {rootingPopoverOpen && (
+                <div
+                  ref={rootingPopoverRef}
+                  className="absolute right-0 top-16 z-40 w-80 rounded-2xl border border-slate-200 bg-white shadow-xl px-4 py-4 text-sm text-slate-700"
+                  onClick={(e)=>{ e.stopPropagation(); miniWindowMouseDownInsideRef.current = false; }}
+                >
+                  <div className="flex items-center justify-between mb-3">
+                    <span className="font-semibold">{t("autoRootTitle","Automatic rooting")}</span>
+                    <button className="text-xs text-slate-500" onClick={()=>setRootingPopoverOpen(false)}>{t("close","Close")}</button>
+                  </div>
+                  <div className="space-y-3">
+                    <p className="text-xs text-slate-500">{t("autoRootHint","Midpoint puts the root halfway along the longest tip-to-tip path. MAD (minimal ancestor deviation) picks the position where the tree looks most clock-like.")}</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      <button className={`${BUTTON_CLASSES} text-sm`} onClick={()=>actionAutoRoot("midpoint")}>{t("midpointRooting","Midpoint")}</button>
+                      <button
+                        className={`${BUTTON_CLASSES} text-sm disabled:opacity-40 disabled:cursor-not-allowed`}
+                        onClick={()=>actionAutoRoot("mad")}
+                        disabled={tipCount > MAD_ROOTING_TIP_LIMIT}
+                      >
+                        {t("madRooting","MAD")}
+                      </button>
+                    </div>
+                    <div className="space-y-2 border-t border-slate-200 pt-3">
+                      <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">{t("outgroupRooting","Root with outgroup")}</span>
+                      <textarea
+                        className={`${INPUT_CLASSES} w-full min-h-[72px] resize-y text-sm`}
+                        placeholder={t("outgroupNamesPlaceholder","Outgroup tip names, one per line")}
+                        value={outgroupText}
+                        onChange={(e)=>setOutgroupText(e.target.value)}
+                      />
+                      <div className="grid grid-cols-3 gap-2">
+                        <button
+                          className={`${SECONDARY_BUTTON_CLASSES} text-xs disabled:opacity-40 disabled:cursor-not-allowed`}
+                          onClick={()=>actionRootWithOutgroup("names")}
+                          disabled={!outgroupText.trim()}
+                        >
+                          {t("outgroupFromNames","Pasted names")}
+                        </button>
+                        <button
+                          className={`${SECONDARY_BUTTON_CLASSES} text-xs disabled:opacity-40 disabled:cursor-not-allowed`}
+                          onClick={()=>actionRootWithOutgroup("selection")}
+                          disabled={!selectedTipIds.size}
+                        >
+                          {t("outgroupFromSelection","Selected tips")} ({selectedTipIds.size})
+                        </button>
+                        <button
+                          className={`${SECONDARY_BUTTON_CLASSES} text-xs disabled:opacity-40 disabled:cursor-not-allowed`}
+                          onClick={()=>actionRootWithOutgroup("search")}
+                          disabled={!searchSet.size}
+                        >
+                          {t("outgroupFromSearch","Search matches")} ({searchSet.size})
+                        </button>
+                      </div>
+                    </div>
+                    {rootingReport && (
+                      <div className="rounded-xl border border-slate-200 bg-slate-50/80 px-3 py-2 space-y-1 text-xs text-slate-600">
+                        <p>
+                          {t("rootPlacedOn","Root placed on the branch to")} <span className="font-semibold text-slate-800">{rootingReport.clade}</span>
+                        </p>
+                        <p>
+                          {t("rootBranchSplit","Branch length split (parent side + clade side)")}: {formatRootingValue(rootingReport.offset)} + {formatRootingValue(rootingReport.length - rootingReport.offset)}
+                        </p>
+                        {rootingReport.method === "midpoint" && (
+                          <p>{t("rootMidpointReason","Midpoint of the longest tip-to-tip path")}: {rootingReport.tipA} – {rootingReport.tipB} ({formatRootingValue(rootingReport.pathLength)})</p>
+                        )}
+                        {rootingReport.method === "mad" && (
+                          <>
+                            <p>{t("rootMadReason","Lowest ancestor deviation (root mean square)")}: {formatRootingValue(rootingReport.deviation)}</p>
+                            {rootingReport.ambiguity !== null && (
+                              <p>
+                                {t("rootAmbiguity","Root ambiguity index")}: {formatRootingValue(rootingReport.ambiguity)} · {t("rootAmbiguityHint","Values close to 1 mean another branch fits almost as well.")}
+                              </p>
+                            )}
+                          </>
+                        )}
+                        {rootingReport.method === "outgroup" && (
+                          <>
+                            <p>{t("outgroupTips","Outgroup tips")}: {rootingReport.outgroupSize}</p>
+                            {rootingReport.intruders.length > 0 && (
+                              <details open>
+                                <summary className="cursor-pointer text-amber-700">{t("outgroupNotMonophyletic","The outgroup is not monophyletic; these tips fall inside it")} ({rootingReport.intruders.length})</summary>
+                                <p className="mt-1 max-h-24 overflow-y-auto break-words">{rootingReport.intruders.join(", ")}</p>
+                              </details>
+                            )}
+                            {rootingReport.missing.length > 0 && (
+                              <details>
+                                <summary className="cursor-pointer text-amber-700">{t("outgroupMissing","Names not found in the tree")} ({rootingReport.missing.length})</summary>
+                                <p className="mt-1 max-h-24 overflow-y-auto break-words">{rootingReport.missing.join(", ")}</p>
+                              </details>
+                            )}
+                          </>
+                        )}
+                        {rootingReport.unchanged && <p className="text-amber-700">{t("rootUnchanged","The tree was already rooted there.")}</p>}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+              {prunePopoverOpen && (
+                <div
+                  ref={prunePopoverRef}
+                  className="absolute right-0 top-16 z-40 w-80 rounded-2xl border border-slate-200 bg-white shadow-xl px-4 py-4 text-sm text-slate-700"
+                  onClick={(e)=>{ e.stopPropagation(); miniWindowMouseDownInsideRef.current = false; }}
+                >
+                  <div className="flex items-center justify-between mb-3">
+                    <span className="font-semibold">{t("pruneTitle","Prune tips")}</span>
+                    <button className="text-xs text-slate-500" onClick={()=>setPrunePopoverOpen(false)}>{t("close","Close")}</button>
+                  </div>
+                  <div className="space-y-3">
+                    <textarea
+                      className={`${INPUT_CLASSES} w-full min-h-[96px] resize-y text-sm`}
+                      placeholder={t("pruneNamesPlaceholder","Tip names, one per line")}
+                      value={pruneText}
+                      onChange={(e)=>{ setPruneText(e.target.value); setPruneReport(null); }}
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className={`${SECONDARY_BUTTON_CLASSES} text-xs inline-flex items-center justify-center cursor-pointer`}>
+                        <span>{t("pruneUploadList","Upload list")}</span>
+                        <input
+                          type="file"
+                          accept=".txt,.csv,.tsv"
+                          className="hidden"
+                          onChange={(e)=>{ handlePruneListLoad(e.target.files); e.target.value = ""; }}
+                        />
+                      </label>
+                      <button
+                        className={`${SECONDARY_BUTTON_CLASSES} text-xs disabled:opacity-40 disabled:cursor-not-allowed`}
+                        onClick={fillPruneTextFromSearch}
+                        disabled={!searchSet.size}
+                      >
+                        {t("outgroupFromSearch","Search matches")} ({searchSet.size})
+                      </button>
+                    </div>
+                    <select
+                      className={`${INPUT_CLASSES} w-full text-sm`}
+                      value={pruneMode}
+                      onChange={(e)=>setPruneMode(e.target.value as "remove" | "keep")}
+                    >
+                      <option value="remove">{t("pruneRemoveListed","Remove these tips")}</option>
+                      <option value="keep">{t("pruneKeepListed","Keep only these tips")}</option>
+                    </select>
+                    {pruneMatch && pruneRemovedTips && (
+                      <div className="rounded-xl border border-slate-200 bg-slate-50/80 px-3 py-2 space-y-1 text-xs text-slate-600">
+                        <p>
+                          {t("pruneWillRemove","Tips to remove (red in the tree)")}: <span className="font-semibold text-red-600">{pruneRemovedTips.size}</span> · {t("pruneWillRemain","remaining")}: {tipCount - pruneRemovedTips.size}
+                        </p>
+                        {pruneMatch.missing.length > 0 && (
+                          <details>
+                            <summary className="cursor-pointer text-amber-700">{t("outgroupMissing","Names not found in the tree")} ({pruneMatch.missing.length})</summary>
+                            <p className="mt-1 max-h-24 overflow-y-auto break-words">{pruneMatch.missing.join(", ")}</p>
+                          </details>
+                        )}
+                      </div>
+                    )}
+                    <button
+                      className={`${BUTTON_CLASSES} w-full text-sm disabled:opacity-40 disabled:cursor-not-allowed`}
+                      onClick={actionPrune}
+                      disabled={!pruneRemovedTips?.size}
+                    >
+                      {t("pruneApply","Apply")}
+                    </button>
+                    <p className="text-xs text-slate-500">{t("pruneHint","Clades left without tips are removed too, and nodes left with a single child are merged into one branch whose length is the sum of both.")}</p>
+                    {pruneReport && (
+                      <div className="rounded-xl border border-slate-200 bg-slate-50/80 px-3 py-2 space-y-1 text-xs text-slate-600">
+                        <p>{t("pruneRemoved","Tips removed")}: {pruneReport.removed} · {t("pruneWillRemain","remaining")}: {pruneReport.remaining}</p>
+                        {pruneReport.missing.length > 0 && (
+                          <details open>
+                            <summary className="cursor-pointer text-amber-700">{t("outgroupMissing","Names not found in the tree")} ({pruneReport.missing.length})</summary>
+                            <p className="mt-1 max-h-24 overflow-y-auto break-words">{pruneReport.missing.join(", ")}</p>
+                          </details>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
               {searchPopoverOpen && (
                 <div
                   ref={searchPopoverRef}
@@ -3619,39 +7754,55 @@ export default function TreeEditor(){
                 </div>
               )}
             </div>
-            <div className="relative flex-1">
+            <div
+              className="relative flex-1"
+              onDragOver={handleTreePaneDragOver}
+              onDragLeave={handleTreePaneDragLeave}
+              onDrop={handleTreePaneDrop}
+            >
+              {fileDragActive && (
+                <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center rounded-2xl border-2 border-dashed border-[#286699] bg-[#286699]/10 text-sm font-semibold text-[#286699]">
+                  {t("dropTreeFile","Drop a tree file (.nwk, .nex, .xml, .gz, .zip) to load it")}
+                </div>
+              )}
+              {treeProgress !== null && (
+                <div className="absolute inset-0 z-10 flex items-center justify-center rounded-2xl bg-white/70">
+                  <div className="w-64 space-y-2 rounded-xl border border-slate-200 bg-white px-4 py-3 text-sm font-semibold text-slate-700 shadow">
+                    <div>{treeProgress.stage === "layout" ? t("layingOutTree","Laying out tree…") : t("parsingTree","Reading tree…")} {Math.round(treeProgress.fraction * 100)}%</div>
+                    <div className="h-2 overflow-hidden rounded-full bg-slate-200">
+                      <div className="h-full bg-[#286699]" style={{ width: `${Math.round(treeProgress.fraction * 100)}%` }} />
+                    </div>
+                  </div>
+                </div>
+              )}
+              {canvasMode && (
+                <canvas
+                  ref={canvasRef}
+                  className="pointer-events-none absolute left-0 top-0 rounded-2xl bg-white"
+                  style={{ width:"100%", height:svgHeight }}
+                />
+              )}
               <svg
                 ref={svgRef}
                 width={"100%"}
                 height={svgHeight}
-                className="border border-transparent rounded-2xl bg-white"
-                style={{ display:"block", touchAction:"none" }}
-                onClick={handleSvgBlankClick}
+                className={`border border-transparent rounded-2xl ${canvasMode ? "bg-transparent" : "bg-white"}`}
+                style={{ display:"block", touchAction:"none", position: canvasMode ? "relative" : undefined }}
+                onClick={handleSvgClick}
+                onMouseDown={canvasMode ? handleSvgMouseDown : undefined}
+                onMouseMove={canvasMode ? handleSvgMouseMove : undefined}
+                onMouseLeave={canvasMode ? hideCollapsedTooltip : undefined}
               >
                 <g ref={gRef}>
               {/* Edges */}
-              {links.map((link, idx)=>{
-                const source=link.source;
-                const target=link.target;
-                if(!source||!target) return null;
-                const parentData = (source.d?.data ?? {}) as TreeNode;
-                const childData = (target.d?.data ?? {}) as TreeNode;
-                const parentId = parentData.__id;
-                const childId = childData.__id;
-                const linkKey = parentId !== undefined && childId !== undefined ? linkSelectionKey(parentId, childId) : null;
-                const linkMultiSelected = linkKey ? multiSelectionKeySet.has(linkKey) : false;
-                const linkSelected = Boolean(selection && selection.type==='link' && parentId !== undefined && childId !== undefined && selection.parentId===parentId && selection.childId===childId);
-                const highlightActive = linkSelected || linkMultiSelected;
-                const customColor = childData.__edgeColor;
-                const customWidth = typeof childData.__edgeWidth === 'number' && Number.isFinite(childData.__edgeWidth) ? childData.__edgeWidth : null;
-                const highlightColor = '#f0a608ff';
-                const baseColor = customColor || '#1f2937';
-                const baseWidth = customWidth ?? edgeWidth;
-                const pointerWidth = Math.max(12, baseWidth + (highlightActive ? 12 : 8));
-                const highlightStrokeWidth = highlightActive ? Math.max(baseWidth + 3, baseWidth * 1.65) : null;
-                const midX = (source.x + target.x) / 2;
-                const branchLenValue = typeof childData.length === 'number' && Number.isFinite(childData.length) ? childData.length : 0;
-                const supportValue = childData.name;
+              {svgLinks.map((link, idx)=>{
+                const paint = linkPaint(link);
+                if(!paint) return null;
+                const {
+                  source, target, parentId, childId, highlightActive, highlightColor,
+                  baseColor, baseWidth, pointerWidth, highlightStrokeWidth, midX, branchLenValue,
+                  supportValue
+                } = paint;
                 const parentKey = parentId ?? `p-${idx}`;
                 const childKeyLabel = childId ?? `c-${idx}`;
                 return (
@@ -3714,95 +7865,57 @@ export default function TreeEditor(){
                     {layout==='phylogram' && showBranchLen && (
                       <text x={midX + branchLenOffsetX} y={target.y + branchLenOffsetY} fontSize={branchLabelSize} textAnchor="middle" className="fill-slate-600 select-none">{branchLenValue.toFixed(branchLengthPrecisionSafe)}</text>
                     )}
-                    {showBootstrap && typeof supportValue === 'string' && supportValue.trim() && !Number.isNaN(parseFloat(supportValue)) && (
+                    {supportValue !== null && (
                       <text x={midX + bootstrapOffsetX} y={target.y + bootstrapOffsetY} fontSize={supportLabelSize} textAnchor="middle" className="fill-slate-500 select-none">{supportValue}</text>
                     )}
                   </g>
                 );
               })}
 
+              {/* Clades packed too tightly to draw at this zoom */}
+              {levelOfDetailView?.clades.map(({ node, extent })=>{
+                const color = lodCladeColor(node);
+                return (
+                  <path
+                    key={`lod-${node.d.data.__id ?? `${node.x},${node.y}`}`}
+                    d={`M${node.x},${node.y} L${extent.maxX},${extent.minY} L${extent.maxX},${extent.maxY} Z`}
+                    fill={color}
+                    fillOpacity={0.35}
+                    stroke={color}
+                    strokeWidth={edgeWidth}
+                    strokeLinejoin="round"
+                    className="cursor-pointer"
+                    onClick={(e)=>onClickNode(node, e)}
+                  />
+                );
+              })}
+
               {/* Nodes */}
-              {nodes.map((n,i)=>{
-                const nodeId = n.d.data.__id;
-                const baseSelected=nodeId !== undefined && selection?.type==='node' && selection?.id===nodeId;
-                const multiSelected = nodeId !== undefined && multiSelectionKeySet.has(nodeSelectionKey(nodeId));
-                const selected = Boolean(baseSelected || multiSelected);
-                const isDisplayLeaf=!n.d.children?.length;
-                const collapsedTipCount = typeof n.d.data.__collapsedTipCount === "number" ? n.d.data.__collapsedTipCount : undefined;
-                const isCollapsedLeaf = Boolean(isDisplayLeaf && n.d.data.__isCollapsedPlaceholder);
-                const isSimpleLeaf = isDisplayLeaf && !isCollapsedLeaf;
-                const collapsedLeafNames = nodeId !== undefined ? tipNamesById.get(nodeId) : undefined;
-                const nodeColor = n.d.data.__color;
-                const defaultRadius = isDisplayLeaf ? Math.max(0, leafNodeDotSize) : Math.max(0, internalNodeDotSize);
-                const customRadius = typeof n.d.data.__nodeSize === "number" && Number.isFinite(n.d.data.__nodeSize)
-                  ? Math.max(0, n.d.data.__nodeSize as number)
-                  : null;
-                const r = customRadius ?? defaultRadius;
-                const baseCircleFill = nodeColor || (isDisplayLeaf ? '#111827' : '#374151');
-                const circleStrokeColor = selected
-                  ? '#fbbf24'
-                  : (branchEditActive ? '#fb923c' : 'transparent');
-                const circleStrokeWidth = selected
-                  ? Math.max(1.2, r * 0.75)
-                  : (branchEditActive ? Math.max(1, r * 0.35) : 0);
-                const collapsedMetrics = isCollapsedLeaf ? getCollapsedTriangleMetrics(collapsedTipCount) : null;
-                const collapsedWidth = collapsedMetrics?.width ?? 0;
-                const textStartX = collapsedWidth + labelPadding;
-                const rawName = n.d.data.name ?? "";
-                const trimmedName = rawName.trim();
-                const collapsedLabelText = isCollapsedLeaf ? `(${collapsedTipCount ?? 0})` : "";
-                const leafLabelText = trimmedName || "Unnamed";
-                const displayLabelText = isCollapsedLeaf ? collapsedLabelText : leafLabelText;
-                const collapsedPreview = collapsedLeafNames?.slice(0, 5) ?? [];
-                const collapsedHasMore = (collapsedLeafNames?.length ?? 0) > collapsedPreview.length;
-                const collapsedPreviewText = collapsedPreview.join(", ");
-                const collapsedTooltipCount = collapsedLeafNames?.length ?? collapsedTipCount ?? 0;
-                const collapsedTitle = isCollapsedLeaf
-                  ? (
-                    collapsedPreview.length
-                      ? `${collapsedTooltipCount} ${collapsedTooltipCount === 1 ? "leaf" : "leaves"}: ${collapsedPreviewText}${collapsedHasMore ? ", ..." : ""}`
-                      : `Collapsed subtree (${collapsedTipCount ?? 0} leaf${(collapsedTipCount ?? 0) === 1 ? "" : "s"})`
-                  )
-                  : null;
-                const isSearchHit = nodeId !== undefined && searchSet.has(nodeId);
-                const isActiveSearchTarget = activeSearchNodeId !== null && nodeId === activeSearchNodeId;
-                const labelBaselineY = leafLabelOffsetY;
-                const shouldItalicize = italic && (isSimpleLeaf || isCollapsedLeaf);
-                const customLabelFont = isSimpleLeaf && typeof n.d.data.__labelFontSize === "number" && Number.isFinite(n.d.data.__labelFontSize) ? Math.max(6, n.d.data.__labelFontSize as number) : null;
-                const labelFontSize = customLabelFont ?? leafLabelSize;
-                const labelBold = isSimpleLeaf && Boolean(n.d.data.__labelBold);
-                const selectedLeaf = selected && (isSimpleLeaf || isCollapsedLeaf);
-                const searchHighlight = isSearchHit && (isSimpleLeaf || isCollapsedLeaf);
-                const highlightMode = isActiveSearchTarget
-                  ? "search-active"
-                  : (searchHighlight ? "search" : (selectedLeaf ? "selection" : null));
-                const showHighlight = highlightMode !== null;
-                const highlightStroke = highlightMode === "selection"
-                  ? "#d97706"
-                  : (highlightMode === "search-active" ? "#f59e0b" : "#f4c84a");
-                const highlightStrokeWidth = highlightMode === "selection" ? 2.2 : (highlightMode === "search-active" ? 2 : 1.6);
-                const labelClasses = [
-                  "select-none",
-                  labelBold ? "font-bold" : (showHighlight ? "font-semibold" : ""),
-                  shouldItalicize ? "italic" : "",
-                  isCollapsedLeaf ? "font-medium" : ""
-                ].filter(Boolean).join(" ");
-                const baseLeafFill = nodeColor || '#1f2937';
-                const collapsedStrokeColor = nodeColor || '#000000ff';
-                const collapsedFillColor = nodeColor || '#000000ff';
-                const labelFill = isCollapsedLeaf
-                  ? collapsedStrokeColor
-                  : (isSimpleLeaf ? baseLeafFill : '#374151');
-                const collapsedHalfHeight = collapsedMetrics ? collapsedMetrics.height/2 : 0;
+              {svgNodes.map((n,i)=>{
+                const {
+                  selected, isDisplayLeaf, isCollapsedLeaf, isSimpleLeaf, mappedTipShape, showTipSymbol,
+                  r, baseCircleFill, circleStrokeColor, circleStrokeWidth, collapsedMetrics, collapsedWidth,
+                  textStartX, metadataTitle, displayLabelText, collapsedTitle, labelBaselineY, shouldItalicize,
+                  labelFontSize, showHighlight, highlightStroke, highlightStrokeWidth, labelClasses, collapsedStrokeColor,
+                  collapsedFillColor, labelFill, collapsedHalfHeight
+                } = nodePaint(n);
                 return (
                   <g
-                    key={i}
+                    key={n.d.data.__id ?? `i-${i}`}
                     transform={`translate(${n.x},${n.y})`}
                     className="cursor-pointer"
                     onClick={(e)=>onClickNode(n,e)}
                     onMouseDown={(e)=>handleNodeMouseDown(n,e)}
                   >
-                    {showNodeDotsEffective && (
+                    {(showNodeDotsEffective || showTipSymbol) && mappedTipShape && mappedTipShape !== "circle" && !branchEditActive ? (
+                      <path
+                        d={tipShapePath(mappedTipShape, r)}
+                        fill={baseCircleFill}
+                        stroke={circleStrokeColor}
+                        strokeWidth={circleStrokeWidth}
+                        data-base-fill={baseCircleFill}
+                      />
+                    ) : (showNodeDotsEffective || showTipSymbol) && (
                       <circle
                         r={branchEditActive ? Math.max(r + 1.5, isDisplayLeaf ? 4 : 3) : r}
                         fill={branchEditActive ? (isDisplayLeaf ? "#0f172a" : "#1f2937") : baseCircleFill}
@@ -3819,12 +7932,12 @@ export default function TreeEditor(){
                         stroke={collapsedStrokeColor}
                         strokeWidth={selected ? 2.4 : 1.2}
                         pointerEvents="visiblePainted"
-                        onMouseEnter={(e)=>{ if(collapsedTitle) showCollapsedTooltip(e as unknown as React.MouseEvent<SVGElement>, collapsedTitle); }}
-                        onMouseMove={(e)=>{ if(collapsedTitle) showCollapsedTooltip(e as unknown as React.MouseEvent<SVGElement>, collapsedTitle); }}
+                        onMouseEnter={(e)=>{ if(collapsedTitle) showCollapsedTooltip(e, collapsedTitle); }}
+                        onMouseMove={(e)=>{ if(collapsedTitle) showCollapsedTooltip(e, collapsedTitle); }}
                         onMouseLeave={hideCollapsedTooltip}
                       />
                     )}
-                    {isSimpleLeaf && (
+                    {isSimpleLeaf && leafLabelsVisible && (
                       <text
                         x={textStartX}
                         y={labelBaselineY}
@@ -3839,11 +7952,14 @@ export default function TreeEditor(){
                         paintOrder={showHighlight ? "stroke fill" : undefined}
                         data-label-highlight={showHighlight ? "true" : undefined}
                         style={shouldItalicize ? { fontStyle: "italic" } : undefined}
+                        onMouseEnter={(e)=>{ if(metadataTitle) showCollapsedTooltip(e, metadataTitle); }}
+                        onMouseMove={(e)=>{ if(metadataTitle) showCollapsedTooltip(e, metadataTitle); }}
+                        onMouseLeave={hideCollapsedTooltip}
                       >
                         {displayLabelText}
                       </text>
                     )}
-                    {isCollapsedLeaf && (
+                    {isCollapsedLeaf && leafLabelsVisible && (
                       <text
                         x={textStartX}
                         y={labelBaselineY}
@@ -3880,6 +7996,55 @@ export default function TreeEditor(){
                   </g>
                 );
               })}
+              {legendLayout && (
+                <g
+                  data-legend="true"
+                  transform={`translate(${legendLayout.position.x},${legendLayout.position.y})`}
+                  className="cursor-move"
+                  onMouseDown={handleLegendMouseDown}
+                  onClick={(e)=>e.stopPropagation()}
+                >
+                  <rect width={legendLayout.width} height={legendLayout.height} rx={6} fill="#ffffff" fillOpacity={0.92} stroke="#cbd5e1" />
+                  {legendLayout.sections.map(({ section, titleY, rows, gradientY })=>(
+                    <g key={section.id}>
+                      <text x={legendLayout.pad} y={titleY} fontSize={legendLayout.fontSize} fontWeight="bold" fill="#1f2937" className="select-none">{section.title}</text>
+                      {rows.map(({ item, y })=>(
+                        <g key={item.key} transform={`translate(${legendLayout.pad},${y})`}>
+                          {item.shape ? (
+                            <path d={tipShapePath(item.shape, legendLayout.swatch / 2)} transform={`translate(${legendLayout.swatch / 2},0)`} fill="#374151" />
+                          ) : item.color ? (
+                            <rect y={-legendLayout.swatch / 2} width={legendLayout.swatch} height={legendLayout.swatch} rx={2} fill={item.color} />
+                          ) : null}
+                          <text
+                            x={item.shape || item.color ? legendLayout.swatch + 8 : 0}
+                            fontSize={legendLayout.fontSize}
+                            fontWeight={item.bold ? "bold" : undefined}
+                            fill="#1f2937"
+                            dominantBaseline="middle"
+                            className="select-none"
+                          >
+                            {item.label}
+                          </text>
+                        </g>
+                      ))}
+                      {section.gradient && gradientY !== null && (
+                        <g transform={`translate(${legendLayout.pad},${gradientY})`}>
+                          <defs>
+                            <linearGradient id={`legend-gradient-${section.id}`}>
+                              {section.gradient.colors.map((color, i, colors)=>(
+                                <stop key={i} offset={`${(i / Math.max(1, colors.length - 1)) * 100}%`} stopColor={color} />
+                              ))}
+                            </linearGradient>
+                          </defs>
+                          <rect width={legendLayout.width - legendLayout.pad * 2} height={legendLayout.swatch} rx={2} fill={`url(#legend-gradient-${section.id})`} />
+                          <text y={legendLayout.swatch + legendLayout.fontSize} fontSize={legendLayout.fontSize} fill="#1f2937" className="select-none">{section.gradient.min}</text>
+                          <text x={legendLayout.width - legendLayout.pad * 2} y={legendLayout.swatch + legendLayout.fontSize} fontSize={legendLayout.fontSize} textAnchor="end" fill="#1f2937" className="select-none">{section.gradient.max}</text>
+                        </g>
+                      )}
+                    </g>
+                  ))}
+                </g>
+              )}
             </g>
           </svg>
             </div>
@@ -4009,14 +8174,7 @@ export default function TreeEditor(){
         </div>
       </div>
 
-      {collapsedHover.visible && (
-        <div
-          className="pointer-events-none fixed z-50 max-w-sm rounded-xl bg-slate-900/90 px-3 py-2 text-sm text-white shadow-2xl"
-          style={{ left: collapsedHover.left, top: collapsedHover.top }}
-        >
-          {collapsedHover.text}
-        </div>
-      )}
+      <HoverTooltip ref={hoverTooltipRef} />
 
     </div>
   );
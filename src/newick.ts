@@ -0,0 +1,1099 @@
+import * as d3 from "d3";
+
+export type SupportScale = "original" | "fraction" | "percent";
+
+type AnnotationValue = number | string | AnnotationValue[];
+type AnnotationFormat = "beast" | "nhx";
+
+export type TreeNode = {
+  __id?: number;
+  __edgeColor?: string;
+  __edgeWidth?: number;
+  __color?: string;
+  __nodeSize?: number;
+  __labelBold?: boolean;
+  __labelFontSize?: number;
+  __cladoOffset?: number;
+  __collapsed?: boolean;
+  __collapsedTipCount?: number;
+  __isCollapsedPlaceholder?: boolean;
+  __annotations?: Record<string, AnnotationValue>;
+  __annotationFormat?: AnnotationFormat;
+  __supports?: number[];
+  __metadata?: Record<string, string>;
+  name?: string;
+  length?: number;
+  children?: TreeNode[];
+  [key: string]: unknown;
+};
+
+/** ---------- NEWICK ---------- */
+type NewickTokenType = "(" | ")" | "," | ":" | ";" | "label" | "comment";
+type NewickToken = { type: NewickTokenType; value: string; start: number; end: number; quoted?: boolean };
+export type NewickDiagnostic = {
+  severity: "error" | "warning";
+  message: string;
+  hint?: string;
+  token: string;
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+};
+type NewickParseResult = { tree: TreeNode | null; error: NewickDiagnostic | null; warnings: NewickDiagnostic[] };
+
+function newickDiagnostic(text: string, severity: NewickDiagnostic["severity"], message: string, start: number, end: number, hint?: string): NewickDiagnostic {
+  const before = text.slice(0, start);
+  const line = before.split("\n").length;
+  const column = start - before.lastIndexOf("\n");
+  const token = start < text.length ? text.slice(start, Math.max(end, start + 1)) : "end of input";
+  return { severity, message, hint, token, start, end: Math.max(end, start), line, column };
+}
+// Errors thrown by the NEWICK reader carry the diagnostic so callers can point at the problem.
+function newickParseError(diagnostic: NewickDiagnostic): Error & { diagnostic: NewickDiagnostic } {
+  const error = new Error(
+    `Newick parse error at line ${diagnostic.line}, column ${diagnostic.column}: ${diagnostic.message}`
+  ) as Error & { diagnostic: NewickDiagnostic };
+  error.diagnostic = diagnostic;
+  return error;
+}
+function getNewickDiagnostic(error: unknown): NewickDiagnostic | null {
+  if (!(error instanceof Error) || !("diagnostic" in error)) return null;
+  return (error as Error & { diagnostic: NewickDiagnostic }).diagnostic;
+}
+
+// Characters that end an unquoted label; anything else (including blanks) belongs to it.
+const NEWICK_DELIMITERS = "(),:;[";
+function tokenizeNewick(text: string): NewickToken[] {
+  const tokens: NewickToken[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    if (ch === "[") {
+      let depth = 1;
+      i++;
+      while (i < text.length && depth > 0) {
+        if (text[i] === "[") depth++;
+        else if (text[i] === "]") depth--;
+        i++;
+      }
+      if (depth > 0) {
+        throw newickParseError(newickDiagnostic(text, "error", "Unterminated comment", start, start + 1, "Every '[' needs a matching ']'."));
+      }
+      tokens.push({ type: "comment", value: text.slice(start + 1, i - 1), start, end: i });
+      continue;
+    }
+    if ("(),:;".includes(ch)) {
+      tokens.push({ type: ch as NewickTokenType, value: ch, start, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (ch === "'") {
+      let value = "";
+      let closed = false;
+      i++;
+      while (i < text.length) {
+        if (text[i] === "'") {
+          if (text[i + 1] === "'") {
+            value += "'";
+            i += 2;
+            continue;
+          }
+          i++;
+          closed = true;
+          break;
+        }
+        value += text[i++];
+      }
+      if (!closed) {
+        throw newickParseError(newickDiagnostic(text, "error", "Unterminated quoted label", start, start + 1, "Close the label with a single quote; write '' for a literal quote."));
+      }
+      tokens.push({ type: "label", value, start, end: i, quoted: true });
+      continue;
+    }
+    while (i < text.length && !NEWICK_DELIMITERS.includes(text[i])) i++;
+    const raw = text.slice(start, i).trim();
+    tokens.push({ type: "label", value: raw.replace(/_/g, " "), start, end: i });
+  }
+  return tokens;
+}
+/** ---------- annotations (NHX / BEAST) ---------- */
+export function parseAnnotationScalar(raw: string): AnnotationValue {
+  const trimmed = raw.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) return trimmed.slice(1, -1);
+  if (trimmed !== "" && Number.isFinite(Number(trimmed))) return Number(trimmed);
+  return trimmed;
+}
+// Splits on top-level commas, ignoring those inside {...} sets and "quoted" strings.
+function splitAnnotationList(text: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let depth = 0;
+  let quoted = false;
+  for (const ch of text) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && ch === "{") depth++;
+    else if (!quoted && ch === "}") depth--;
+    if (ch === "," && depth === 0 && !quoted) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim()) parts.push(current);
+  return parts;
+}
+export function parseAnnotationValue(raw: string): AnnotationValue {
+  const trimmed = raw.trim();
+  if (trimmed.startsWith("{") && trimmed.endsWith("}")) {
+    return splitAnnotationList(trimmed.slice(1, -1)).map(parseAnnotationValue);
+  }
+  return parseAnnotationScalar(trimmed);
+}
+// Parses the body of a bracketed comment; returns null for plain comments and root markers.
+function parseAnnotationComment(comment: string): { format: AnnotationFormat; values: Record<string, AnnotationValue> } | null {
+  const body = comment.trim();
+  if (/^&&NHX/i.test(body)) {
+    const values: Record<string, AnnotationValue> = {};
+    body.replace(/^&&NHX/i, "").split(":").forEach((pair) => {
+      const eq = pair.indexOf("=");
+      if (eq <= 0) return;
+      values[pair.slice(0, eq).trim()] = parseAnnotationScalar(pair.slice(eq + 1));
+    });
+    return { format: "nhx", values };
+  }
+  if (!body.startsWith("&") || /^&[RU]$/i.test(body)) return null;
+  const values: Record<string, AnnotationValue> = {};
+  splitAnnotationList(body.slice(1)).forEach((pair) => {
+    const eq = pair.indexOf("=");
+    const key = (eq < 0 ? pair : pair.slice(0, eq)).trim();
+    if (!key) return;
+    values[key] = eq < 0 ? "" : parseAnnotationValue(pair.slice(eq + 1));
+  });
+  return { format: "beast", values };
+}
+function applyAnnotationComment(node: TreeNode, comment: string) {
+  const parsed = parseAnnotationComment(comment);
+  if (!parsed) return;
+  const values = takeFigTreeStyling(node, parsed.values);
+  if (!Object.keys(values).length) return;
+  node.__annotations = { ...(node.__annotations ?? {}), ...values };
+  node.__annotationFormat ??= parsed.format;
+}
+export function formatAnnotationValue(value: AnnotationValue): string {
+  if (Array.isArray(value)) return `{${value.map(formatAnnotationValue).join(",")}}`;
+  if (typeof value === "number") return String(value);
+  return /^[^\s,={}"[\]:]*$/.test(value) ? value : `"${value.replace(/"/g, "'")}"`;
+}
+// `extra` holds preformatted key=value pairs (FigTree styling) and forces the BEAST form.
+function formatAnnotationComment(node: TreeNode, extra: string[] = []): string {
+  const entries = Object.entries(node.__annotations ?? {});
+  if (!entries.length && !extra.length) return "";
+  if (node.__annotationFormat === "nhx" && !extra.length) {
+    const pairs = entries.map(([key, value]) => `:${key}=${(Array.isArray(value) ? value.join("|") : String(value)).replace(/[:\]]/g, "_")}`);
+    return `[&&NHX${pairs.join("")}]`;
+  }
+  return `[&${[...extra, ...entries.map(([key, value]) => `${key}=${formatAnnotationValue(value)}`)].join(",")}]`;
+}
+
+// How many nodes the parser reads between progress callbacks.
+const PROGRESS_INTERVAL = 20000;
+
+// Reads one tree from tokens[from]; returns the tree and the index of the first token it did not use.
+function readNewickTree(
+  text: string,
+  tokens: NewickToken[],
+  from: number,
+  warnings: NewickDiagnostic[],
+  onProgress?: (fraction: number) => void
+): { tree: TreeNode; next: number } {
+  let i = from;
+  // Skips comments, attaching any [&...] annotations to the node currently being read.
+  const peek = (owner?: TreeNode) => {
+    while (tokens[i]?.type === "comment") {
+      if (owner) applyAnnotationComment(owner, tokens[i].value);
+      i++;
+    }
+    return tokens[i];
+  };
+  const fail = (token: NewickToken | undefined, message: string, hint?: string): never => {
+    const start = token ? token.start : text.length;
+    throw newickParseError(newickDiagnostic(text, "error", message, start, token ? token.end : start, hint));
+  };
+  const parenthesisHint = () => {
+    let open = 0;
+    let close = 0;
+    tokens.forEach((token) => {
+      if (token.type === "(") open++;
+      else if (token.type === ")") close++;
+    });
+    return `Unbalanced parentheses: found ${open} "(" and ${close} ")".`;
+  };
+  // Reads a node's label, length and trailing comments once its children (if any) are complete.
+  const finishNode = (node: TreeNode) => {
+    if (peek(node)?.type === "label") {
+      const name = tokens[i++].value;
+      if (node.children) applyInternalLabel(node, name);
+      else if (name.trim()) node.name = name;
+    }
+    if (peek(node)?.type === ":") {
+      const colon = tokens[i++];
+      const lengthToken = peek(node);
+      if (lengthToken?.type === "label" && !lengthToken.quoted) {
+        i++;
+        node.length = parseFloat(lengthToken.value);
+        if (!Number.isFinite(Number(lengthToken.value))) {
+          const readAs = Number.isNaN(node.length) ? 0 : node.length;
+          warnings.push(newickDiagnostic(text, "warning", `Branch length "${lengthToken.value}" is not a number`, lengthToken.start, lengthToken.end, `Read as ${readAs}.`));
+        }
+      } else {
+        node.length = NaN;
+        const end = lengthToken?.type === "label" ? lengthToken.end : colon.end;
+        if (lengthToken?.type === "label") i++;
+        warnings.push(newickDiagnostic(text, "warning", "Missing branch length after ':'", colon.start, end, "Read as 0."));
+      }
+      if (Number.isNaN(node.length)) node.length = 0;
+    }
+    peek(node);
+  };
+  // Open clades live on an explicit stack so very deep (caterpillar) trees cannot overflow the call stack.
+  const open: TreeNode[] = [];
+  let current: TreeNode = {};
+  const descend = () => {
+    while (peek(current)?.type === "(") {
+      i++;
+      current.children = [];
+      open.push(current);
+      current = {};
+    }
+  };
+  let finished = 0;
+  descend();
+  while (true) {
+    finishNode(current);
+    if (onProgress && ++finished % PROGRESS_INTERVAL === 0) onProgress(i / tokens.length);
+    const parent = open[open.length - 1];
+    if (!parent) break;
+    (parent.children ??= []).push(current);
+    const next = peek();
+    if (next?.type === ",") {
+      i++;
+      current = {};
+      descend();
+      continue;
+    }
+    if (next?.type === ")") {
+      i++;
+      current = open.pop() as TreeNode;
+      continue;
+    }
+    if (!next || next.type === ";") fail(next, "Missing ')'", parenthesisHint());
+    if (next.type === "(" || next.type === "label") fail(next, "Expected ',' or ')'", "Missing comma between sibling clades?");
+    if (next.type === ":") fail(next, "Unexpected ':'", "A branch can have only one length.");
+    fail(next, `Unexpected '${next.value}'`);
+  }
+  const tree = current;
+  const next = peek();
+  if (next && next.type !== ";") {
+    if (next.type === ")") fail(next, "Unexpected ')'", parenthesisHint());
+    if (next.type === ":") fail(next, "Unexpected ':'", "A branch can have only one length.");
+    fail(next, `Unexpected '${next.value}'`, "The tree is already complete here; a ';', '(' or ',' may be missing.");
+  }
+  return { tree, next: next ? i + 1 : i };
+}
+// Parses a single tree and reports the first error plus any recoverable warnings instead of throwing.
+function parseNewickWithDiagnostics(newick: string, onProgress?: (fraction: number) => void): NewickParseResult {
+  const warnings: NewickDiagnostic[] = [];
+  try {
+    const tokens = tokenizeNewick(newick);
+    const { tree, next } = readNewickTree(newick, tokens, 0, warnings, onProgress);
+    const stray = tokens.slice(next).find((token) => token.type !== "comment");
+    if (stray) {
+      return {
+        tree: null,
+        error: newickDiagnostic(newick, "error", "Unexpected text after ';'", stray.start, stray.end, "A NEWICK tree ends at ';'. Put each additional tree on its own line."),
+        warnings,
+      };
+    }
+    return { tree, error: null, warnings };
+  } catch (e) {
+    const diagnostic = getNewickDiagnostic(e);
+    if (!diagnostic) throw e;
+    return { tree: null, error: diagnostic, warnings };
+  }
+}
+export function parseNewick(newick: string, onProgress?: (fraction: number) => void): TreeNode {
+  const result = parseNewickWithDiagnostics(newick, onProgress);
+  if (result.error) throw newickParseError(result.error);
+  return result.tree as TreeNode;
+}
+// Checks the Data tab text, which may hold several ';'-terminated trees; NEXUS and XML are left to their readers.
+export function diagnoseNewickText(text: string): NewickDiagnostic[] {
+  if (!text.trim() || isNexusText(text) || /^\s*[<{]/.test(text)) return [];
+  const diagnostics: NewickDiagnostic[] = [];
+  try {
+    const tokens = tokenizeNewick(text);
+    const lastSemicolon = tokens.map((token) => token.type).lastIndexOf(";");
+    let index = 0;
+    let treeCount = 0;
+    while (true) {
+      while (tokens[index]?.type === "comment") index++;
+      const first = tokens[index];
+      if (!first) break;
+      if (treeCount > 0 && index > lastSemicolon && first.type !== "(") {
+        diagnostics.push(newickDiagnostic(text, "error", "Unexpected text after ';'", first.start, first.end, "A NEWICK tree ends at ';'. Put each additional tree on its own line."));
+        break;
+      }
+      index = readNewickTree(text, tokens, index, diagnostics).next;
+      treeCount++;
+    }
+  } catch (e) {
+    const diagnostic = getNewickDiagnostic(e);
+    if (!diagnostic) throw e;
+    diagnostics.unshift(diagnostic);
+  }
+  return diagnostics;
+}
+// Internal labels such as "95", "95/0.98" or "95/0.98 Mammalia" hold support values and an optional clade name.
+const SUPPORT_NUMBER = "[-+]?(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][-+]?\\d+)?";
+const SUPPORT_LABEL_PATTERN = new RegExp(`^(${SUPPORT_NUMBER}(?:/${SUPPORT_NUMBER})*)(?:[\\s|]+(.*))?$`);
+function splitInternalLabel(label: string): { supports: number[]; name?: string } {
+  const match = SUPPORT_LABEL_PATTERN.exec(label.trim());
+  if (!match) return { supports: [], name: label };
+  const supports = match[1].split("/").map(Number);
+  // Supports are never negative; a label such as "-5" is a clade name.
+  if (supports.some((value) => !(value >= 0))) return { supports: [], name: label };
+  const name = match[2]?.trim();
+  return { supports, ...(name ? { name } : {}) };
+}
+export function applyInternalLabel(node: TreeNode, label: string) {
+  const { supports, name } = splitInternalLabel(label);
+  if (supports.length) node.__supports = supports;
+  if (name?.trim()) node.name = name;
+}
+export function formatInternalLabel(node: TreeNode): string {
+  const supports = (node.__supports ?? []).map((value) => String(+value.toFixed(6))).join("/");
+  return [supports, node.name ?? ""].filter(Boolean).join(" ");
+}
+// Whether each support component looks like a percentage (any value above 1) rather than a 0–1 fraction.
+export function detectSupportPercentScale(root: TreeNode): boolean[] {
+  const percent: boolean[] = [];
+  forEachNode(root, (n) => {
+    n.__supports?.forEach((value, index) => {
+      percent[index] = Boolean(percent[index]) || value > 1;
+    });
+  });
+  return percent;
+}
+// Returns the text shown for a branch's support, or null when it is missing or below the threshold.
+export function formatSupportLabel(
+  supports: number[] | undefined,
+  options: { component: number; precision: number; scale: SupportScale; threshold: number; percentScale: boolean[] }
+): string | null {
+  if (!supports?.length) return null;
+  const convert = (value: number, index: number) => {
+    if (options.scale === "original") return value;
+    const isPercent = Boolean(options.percentScale[index]);
+    if (options.scale === "fraction") return isPercent ? value / 100 : value;
+    return isPercent ? value : value * 100;
+  };
+  const gateIndex = options.component >= 0 ? options.component : 0;
+  if (gateIndex >= supports.length) return null;
+  if (convert(supports[gateIndex], gateIndex) < options.threshold) return null;
+  const format = (value: number, index: number) => String(+convert(value, index).toFixed(options.precision));
+  if (options.component >= 0) return format(supports[options.component], options.component);
+  return supports.map(format).join("/");
+}
+export type NewickQuoting = "auto" | "always" | "never";
+export type NewickExportOptions = {
+  includeLengths: boolean;
+  lengthFormat: "fixed" | "scientific";
+  lengthPrecision: number;
+  includeInternalNames: boolean;
+  includeSupports: boolean;
+  // -1 writes every component joined by "/"
+  supportComponent: number;
+  includeAnnotations: boolean;
+  quoting: NewickQuoting;
+  rootMarker: "none" | "rooted" | "unrooted";
+  collapsedClades: "expanded" | "placeholder";
+  nameEmptyLeaves: boolean;
+};
+
+export const NEWICK_QUOTING_OPTIONS: NewickQuoting[] = ["auto", "always", "never"];
+export const DEFAULT_NEWICK_EXPORT_OPTIONS: NewickExportOptions = {
+  includeLengths: true,
+  lengthFormat: "fixed",
+  lengthPrecision: 6,
+  includeInternalNames: true,
+  includeSupports: true,
+  supportComponent: -1,
+  includeAnnotations: true,
+  quoting: "auto",
+  rootMarker: "none",
+  collapsedClades: "expanded",
+  nameEmptyLeaves: true,
+};
+
+// "auto" quotes a label only when it cannot be written bare (blanks become underscores otherwise),
+// "always" quotes every label and "never" replaces the characters Newick reserves with underscores.
+function formatNewickLabel(name: string, quoting: NewickQuoting = "auto"): string {
+  if (!name) return "";
+  if (quoting === "always") return `'${name.replace(/'/g, "''")}'`;
+  if (quoting === "never") return name.trim().replace(/[()[\]':;,\s]/g, "_");
+  const needsQuotes = /[()[\]':;,_\t\n\r]/.test(name) || /^\s|\s$/.test(name);
+  if (needsQuotes) return `'${name.replace(/'/g, "''")}'`;
+  return name.replace(/ /g, "_");
+}
+function formatNewickLength(length: number, options: NewickExportOptions): string {
+  const precision = Math.min(12, Math.max(0, Math.round(options.lengthPrecision)));
+  return options.lengthFormat === "scientific" ? length.toExponential(precision) : String(+length.toFixed(precision));
+}
+function formatNewickInternalLabel(node: TreeNode, options: NewickExportOptions): string {
+  const supports = options.includeSupports ? node.__supports ?? [] : [];
+  const picked = options.supportComponent >= 0 ? supports.slice(options.supportComponent, options.supportComponent + 1) : supports;
+  const name = options.includeInternalNames ? node.name ?? "" : "";
+  return [picked.map((value) => String(+value.toFixed(6))).join("/"), name].filter(Boolean).join(" ");
+}
+export function toNewick(node: TreeNode, options?: Partial<NewickExportOptions> & { figTree?: boolean }): string {
+  const opts: NewickExportOptions = { ...DEFAULT_NEWICK_EXPORT_OPTIONS, ...options };
+  const isPlaceholder = (n: TreeNode) => opts.collapsedClades === "placeholder" && Boolean(n.__collapsed && n.children?.length);
+  // Everything written after a node's closing parenthesis (or as the whole leaf).
+  const nodeText = (n: TreeNode, clade: boolean) => {
+    const label = isPlaceholder(n)
+      ? n.name || `Collapsed clade (${collectTips(n).length} tips)`
+      : clade ? formatNewickInternalLabel(n, opts) : n.name ?? "";
+    const name = label ? formatNewickLabel(label, opts.quoting) : "";
+    const len = opts.includeLengths && typeof n.length === "number" ? `:${formatNewickLength(n.length, opts)}` : "";
+    const figTree = options?.figTree ? figTreeNodeAttributes(n, opts.includeLengths) : [];
+    const annotation = opts.includeAnnotations ? formatAnnotationComment(n, figTree) : "";
+    // BEAST/FigTree put [&...] before the length, NHX comments follow it.
+    const suffix = n.__annotationFormat === "nhx" && !figTree.length ? `${len}${annotation}` : `${annotation}${len}`;
+    return clade ? `${name}${suffix}` : `${name || (opts.nameEmptyLeaves ? "Unnamed" : "")}${suffix}`;
+  };
+  // Writes into one buffer from an explicit stack so deep trees neither overflow nor re-copy nested strings.
+  const out: string[] = [opts.rootMarker === "rooted" ? "[&R] " : opts.rootMarker === "unrooted" ? "[&U] " : ""];
+  const stack: { node: TreeNode; next: number }[] = [{ node, next: 0 }];
+  while (stack.length) {
+    const frame = stack[stack.length - 1];
+    const children = frame.node.children ?? [];
+    const clade = children.length > 0 && !isPlaceholder(frame.node);
+    if (clade && frame.next < children.length) {
+      out.push(frame.next === 0 ? "(" : ",");
+      stack.push({ node: children[frame.next++], next: 0 });
+      continue;
+    }
+    if (clade) out.push(")");
+    out.push(nodeText(frame.node, clade));
+    stack.pop();
+  }
+  out.push(";");
+  return out.join("");
+}
+/** ---------- NEXUS ---------- */
+export type NexusTree = { name: string; newick: string; rooted?: boolean };
+
+export function isNexusText(text: string): boolean {
+  return /^\s*#nexus\b/i.test(text);
+}
+// Splits NEXUS text into statements on ";" while respecting quoted tokens and [comments].
+function splitNexusStatements(text: string): string[] {
+  const statements: string[] = [];
+  let current = "";
+  let quoted = false;
+  let commentDepth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    current += ch;
+    if (quoted) {
+      if (ch === "'") {
+        if (text[i + 1] === "'") current += text[++i];
+        else quoted = false;
+      }
+      continue;
+    }
+    if (commentDepth > 0) {
+      if (ch === "[") commentDepth++;
+      else if (ch === "]") commentDepth--;
+      continue;
+    }
+    if (ch === "'") quoted = true;
+    else if (ch === "[") commentDepth++;
+    else if (ch === ";") {
+      statements.push(current.slice(0, -1).trim());
+      current = "";
+    }
+  }
+  if (current.trim()) statements.push(current.trim());
+  return statements;
+}
+function stripNewickComments(text: string): string {
+  let out = "";
+  let quoted = false;
+  let commentDepth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (commentDepth > 0) {
+      if (ch === "[") commentDepth++;
+      else if (ch === "]") commentDepth--;
+      continue;
+    }
+    if (quoted) {
+      out += ch;
+      if (ch === "'") {
+        if (text[i + 1] === "'") out += text[++i];
+        else quoted = false;
+      }
+      continue;
+    }
+    if (ch === "'") quoted = true;
+    if (ch === "[") {
+      commentDepth++;
+      continue;
+    }
+    out += ch;
+  }
+  return out;
+}
+function indexOfUnbracketed(text: string, target: string): number {
+  let quoted = false;
+  let commentDepth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === "'") quoted = false;
+      continue;
+    }
+    if (commentDepth > 0) {
+      if (ch === "[") commentDepth++;
+      else if (ch === "]") commentDepth--;
+      continue;
+    }
+    if (ch === "'") quoted = true;
+    else if (ch === "[") commentDepth++;
+    else if (ch === target) return i;
+  }
+  return -1;
+}
+function unquoteNexusToken(token: string): string {
+  const trimmed = token.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith("'") && trimmed.endsWith("'")) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  return trimmed.replace(/_/g, " ");
+}
+function parseTranslateTable(body: string): Map<string, string> {
+  const map = new Map<string, string>();
+  const entries: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (quoted) {
+      current += ch;
+      if (ch === "'") {
+        if (body[i + 1] === "'") current += body[++i];
+        else quoted = false;
+      }
+      continue;
+    }
+    if (ch === "'") quoted = true;
+    if (ch === ",") {
+      entries.push(current);
+      current = "";
+      continue;
+    }
+    current += ch;
+  }
+  entries.push(current);
+  entries.forEach((entry) => {
+    const match = stripNewickComments(entry).trim().match(/^(\S+)\s+([\s\S]+)$/);
+    if (!match) return;
+    map.set(unquoteNexusToken(match[1]), unquoteNexusToken(match[2]));
+  });
+  return map;
+}
+// Replaces leaf labels (tokens following "(" or ",") with their TRANSLATE table entries,
+// appending any TAXA block comment recorded for that taxon.
+function applyTranslateTable(newick: string, table: Map<string, string>, tipComments = new Map<string, string>()): string {
+  if (!table.size && !tipComments.size) return newick;
+  let out = "";
+  let i = 0;
+  let atTipPosition = true;
+  while (i < newick.length) {
+    const ch = newick[i];
+    if (/\s/.test(ch)) {
+      out += ch;
+      i++;
+      continue;
+    }
+    if (ch === "(" || ch === ",") {
+      out += ch;
+      i++;
+      atTipPosition = true;
+      continue;
+    }
+    if (ch === "[") {
+      const end = newick.indexOf("]", i);
+      const stop = end < 0 ? newick.length : end + 1;
+      out += newick.slice(i, stop);
+      i = stop;
+      continue;
+    }
+    if (ch === ")" || ch === ":" || ch === ";") {
+      out += ch;
+      i++;
+      atTipPosition = false;
+      continue;
+    }
+    let token = "";
+    if (ch === "'") {
+      token += newick[i++];
+      while (i < newick.length) {
+        token += newick[i];
+        if (newick[i] === "'") {
+          if (newick[i + 1] === "'") token += newick[++i];
+          else {
+            i++;
+            break;
+          }
+        }
+        i++;
+      }
+    } else {
+      while (i < newick.length && !/[\s(),:;[]/.test(newick[i])) token += newick[i++];
+    }
+    const translated = atTipPosition ? table.get(unquoteNexusToken(token)) : undefined;
+    out += translated !== undefined ? formatNewickLabel(translated) : token;
+    if (atTipPosition) out += tipComments.get(translated ?? unquoteNexusToken(token)) ?? "";
+    atTipPosition = false;
+  }
+  return out;
+}
+// Reads TAXLABELS, keeping each taxon's [&...] comment as FigTree stores tip label colors there.
+function parseTaxLabelComments(body: string): Map<string, string> {
+  const comments = new Map<string, string>();
+  let i = 0;
+  let last: string | null = null;
+  while (i < body.length) {
+    const ch = body[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === "[") {
+      const end = body.indexOf("]", i);
+      const stop = end < 0 ? body.length : end + 1;
+      const parsed = parseAnnotationComment(body.slice(i + 1, stop - 1));
+      if (last !== null && parsed?.format === "beast") {
+        // On a taxon, FigTree's !color is the label color rather than the branch color.
+        const entries = Object.entries(parsed.values).map(([key, value]) => `${key === "!color" ? FIGTREE_LABEL_COLOR_KEY : key}=${formatAnnotationValue(value)}`);
+        if (entries.length) comments.set(last, `[&${entries.join(",")}]`);
+      }
+      i = stop;
+      continue;
+    }
+    let token = "";
+    if (ch === "'") {
+      token += body[i++];
+      while (i < body.length) {
+        token += body[i];
+        if (body[i] === "'") {
+          if (body[i + 1] === "'") token += body[++i];
+          else {
+            i++;
+            break;
+          }
+        }
+        i++;
+      }
+    } else {
+      while (i < body.length && !/[\s[]/.test(body[i])) token += body[i++];
+    }
+    last = unquoteNexusToken(token);
+  }
+  return comments;
+}
+function parseNexusTrees(text: string): NexusTree[] {
+  const trees: NexusTree[] = [];
+  let inTreesBlock = false;
+  let inTaxaBlock = false;
+  let translate = new Map<string, string>();
+  let tipComments = new Map<string, string>();
+  splitNexusStatements(text.replace(/^\s*#nexus/i, "")).forEach((statement) => {
+    const keyword = stripNewickComments(statement).trim().split(/\s+/)[0]?.toLowerCase() ?? "";
+    if (keyword === "begin") {
+      const blockName = stripNewickComments(statement).trim().split(/\s+/)[1]?.toLowerCase();
+      inTreesBlock = blockName === "trees";
+      inTaxaBlock = blockName === "taxa";
+      if (inTreesBlock) translate = new Map();
+      return;
+    }
+    if (inTaxaBlock && keyword === "taxlabels") {
+      tipComments = parseTaxLabelComments(statement.replace(/^\s*taxlabels/i, ""));
+      return;
+    }
+    if (!inTreesBlock) return;
+    if (keyword === "end" || keyword === "endblock") {
+      inTreesBlock = false;
+      return;
+    }
+    if (keyword === "translate") {
+      translate = parseTranslateTable(statement.replace(/^\s*translate/i, ""));
+      return;
+    }
+    if (keyword !== "tree" && keyword !== "utree") return;
+    const eq = indexOfUnbracketed(statement, "=");
+    if (eq < 0) return;
+    const header = statement.slice(0, eq).replace(/^\s*u?tree/i, "");
+    const name = unquoteNexusToken(stripNewickComments(header).replace(/^\s*\*/, "")) || `tree_${trees.length + 1}`;
+    const body = statement.slice(eq + 1);
+    const rootMarker = body.match(/^\s*\[&([RU])\]/i);
+    const rooted = rootMarker ? rootMarker[1].toUpperCase() === "R" : undefined;
+    const newick = applyTranslateTable(body.replace(/^\s*\[&[RU]\]/i, ""), translate, tipComments).trim();
+    if (!newick) return;
+    trees.push({ name, newick: `${newick};`, rooted });
+  });
+  return trees;
+}
+// Lists every tree in pasted/uploaded text: the TREES block of a NEXUS file, or one Newick per ";".
+export function extractTreeEntries(text: string): NexusTree[] {
+  if (isNexusText(text)) {
+    const trees = parseNexusTrees(text);
+    if (!trees.length) throw new Error("No tree statements found in NEXUS TREES block");
+    return trees;
+  }
+  return splitNexusStatements(text)
+    .filter((statement) => statement.trim())
+    .map((statement, index) => ({ name: `Tree ${index + 1}`, newick: `${statement};` }));
+}
+
+// FigTree display attributes. Tip label colors live in the TAXA block; bold and size have no
+// FigTree attribute, so they travel under our own keys that FigTree shows as plain annotations.
+type FigTreeSettings = {
+  layout: "phylogram" | "cladogram";
+  edgeWidth: number;
+  leafLabelSize: number;
+  italic: boolean;
+  showBootstrap: boolean;
+  supportLabelSize: number;
+  showBranchLen: boolean;
+  branchLabelSize: number;
+};
+const FIGTREE_LABEL_COLOR_KEY = "!labelColor";
+const FIGTREE_LABEL_BOLD_KEY = "phyloweaver_labelBold";
+const FIGTREE_LABEL_SIZE_KEY = "phyloweaver_labelFontSize";
+
+// FigTree writes colors as #rrggbb, or as a signed ARGB integer (#-16776961) in older versions.
+function parseFigTreeColor(value: AnnotationValue): string | null {
+  if (typeof value !== "string") return null;
+  if (/^#-\d+$/.test(value)) return `#${(Number(value.slice(1)) & 0xffffff).toString(16).padStart(6, "0")}`;
+  return d3.color(value)?.formatHex() ?? null;
+}
+// Moves FigTree styling attributes onto the node's styling fields and returns the remaining annotations.
+function takeFigTreeStyling(node: TreeNode, values: Record<string, AnnotationValue>): Record<string, AnnotationValue> {
+  const rest = { ...values };
+  if ("!color" in rest) {
+    const color = parseFigTreeColor(rest["!color"]);
+    if (color) node.__edgeColor = color;
+    delete rest["!color"];
+  }
+  if (FIGTREE_LABEL_COLOR_KEY in rest) {
+    const color = parseFigTreeColor(rest[FIGTREE_LABEL_COLOR_KEY]);
+    if (color) node.__color = color;
+    delete rest[FIGTREE_LABEL_COLOR_KEY];
+  }
+  if ("!collapse" in rest) {
+    node.__collapsed = true;
+    delete rest["!collapse"];
+  }
+  if (FIGTREE_LABEL_BOLD_KEY in rest) {
+    if (rest[FIGTREE_LABEL_BOLD_KEY] === "true" || rest[FIGTREE_LABEL_BOLD_KEY] === 1) node.__labelBold = true;
+    delete rest[FIGTREE_LABEL_BOLD_KEY];
+  }
+  if (FIGTREE_LABEL_SIZE_KEY in rest) {
+    const size = rest[FIGTREE_LABEL_SIZE_KEY];
+    if (typeof size === "number" && size > 0) node.__labelFontSize = size;
+    delete rest[FIGTREE_LABEL_SIZE_KEY];
+  }
+  return rest;
+}
+function figTreeCladeHeight(node: TreeNode, includeLengths: boolean): number {
+  const depths = new Map<TreeNode, number>([[node, 0]]);
+  let height = 0;
+  forEachNode(node, (n) => {
+    const depth = depths.get(n) ?? 0;
+    height = Math.max(height, depth);
+    n.children?.forEach((child) => depths.set(child, depth + (includeLengths ? child.length ?? 0 : 1)));
+  });
+  return height;
+}
+function figTreeNodeAttributes(node: TreeNode, includeLengths: boolean): string[] {
+  const attributes: string[] = [];
+  const color = node.__edgeColor ? d3.color(node.__edgeColor)?.formatHex() : null;
+  if (color) attributes.push(`!color=${color}`);
+  if (node.__collapsed && node.children?.length) {
+    attributes.push(`!collapse={"collapsed",${+figTreeCladeHeight(node, includeLengths).toFixed(6)}}`);
+  }
+  return attributes;
+}
+export function toFigTreeNexus(root: TreeNode, options: { name?: string; includeLengths: boolean; settings: FigTreeSettings }): string {
+  const seen = new Set<string>();
+  const taxa: string[] = [];
+  collectTips(root).forEach((tip) => {
+    const name = tip.name || "Unnamed";
+    if (seen.has(name)) return;
+    seen.add(name);
+    const attributes: string[] = [];
+    const color = tip.__color ? d3.color(tip.__color)?.formatHex() : null;
+    if (color) attributes.push(`!color=${color}`);
+    if (tip.__labelBold) attributes.push(`${FIGTREE_LABEL_BOLD_KEY}=true`);
+    if (tip.__labelFontSize) attributes.push(`${FIGTREE_LABEL_SIZE_KEY}=${tip.__labelFontSize}`);
+    taxa.push(`\t${formatNewickLabel(name)}${attributes.length ? `[&${attributes.join(",")}]` : ""}`);
+  });
+  const { settings } = options;
+  const figTreeSettings: [string, string | number | boolean][] = [
+    ["appearance.branchColorAttribute", '"User selected"'],
+    ["appearance.branchLineWidth", settings.edgeWidth],
+    ["branchLabels.displayAttribute", '"Branch times"'],
+    ["branchLabels.fontSize", settings.branchLabelSize],
+    ["branchLabels.isShown", settings.showBranchLen],
+    ["layout.layoutType", '"RECTANGLE"'],
+    ["nodeLabels.displayAttribute", '"label"'],
+    ["nodeLabels.fontSize", settings.supportLabelSize],
+    ["nodeLabels.isShown", settings.showBootstrap],
+    ["tipLabels.colorAttribute", '"User selected"'],
+    ["tipLabels.fontSize", settings.leafLabelSize],
+    ["tipLabels.fontStyle", settings.italic ? 2 : 0],
+    ["tipLabels.isShown", true],
+    ["trees.transform", settings.layout === "cladogram"],
+    ["trees.transformType", '"cladogram"'],
+  ];
+  return [
+    "#NEXUS",
+    "begin taxa;",
+    `\tdimensions ntax=${taxa.length};`,
+    "\ttaxlabels",
+    ...taxa,
+    ";",
+    "end;",
+    "",
+    "begin trees;",
+    `\ttree ${formatNewickLabel(options.name || "tree_1")} = [&R] ${toNewick(root, { includeLengths: options.includeLengths, figTree: true })}`,
+    "end;",
+    "",
+    "begin figtree;",
+    ...figTreeSettings.map(([key, value]) => `\tset ${key}=${value};`),
+    "end;",
+    "",
+  ].join("\n");
+}
+// Reads the display settings FigTree keeps in its own NEXUS block.
+export function parseFigTreeSettings(text: string): Partial<FigTreeSettings> {
+  const values = new Map<string, string>();
+  let inFigTreeBlock = false;
+  splitNexusStatements(text.replace(/^\s*#nexus/i, "")).forEach((statement) => {
+    const words = stripNewickComments(statement).trim().split(/\s+/);
+    const keyword = words[0]?.toLowerCase() ?? "";
+    if (keyword === "begin") {
+      inFigTreeBlock = words[1]?.toLowerCase() === "figtree";
+      return;
+    }
+    if (!inFigTreeBlock || keyword !== "set") return;
+    const match = statement.trim().match(/^set\s+([\w.]+)\s*=\s*(.*)$/is);
+    if (match) values.set(match[1], match[2].trim().replace(/^"(.*)"$/, "$1"));
+  });
+  const settings: Partial<FigTreeSettings> = {};
+  const number = (key: string) => {
+    const value = Number(values.get(key));
+    return values.has(key) && Number.isFinite(value) && value > 0 ? value : undefined;
+  };
+  const flag = (key: string) => (values.has(key) ? values.get(key) === "true" : undefined);
+  if (values.has("trees.transform")) {
+    settings.layout = flag("trees.transform") && values.get("trees.transformType") === "cladogram" ? "cladogram" : "phylogram";
+  }
+  settings.edgeWidth = number("appearance.branchLineWidth");
+  settings.leafLabelSize = number("tipLabels.fontSize");
+  settings.branchLabelSize = number("branchLabels.fontSize");
+  settings.supportLabelSize = number("nodeLabels.fontSize");
+  settings.showBranchLen = flag("branchLabels.isShown");
+  settings.showBootstrap = flag("nodeLabels.isShown");
+  if (values.has("tipLabels.fontStyle")) settings.italic = (Number(values.get("tipLabels.fontStyle")) & 2) === 2;
+  return settings;
+}
+
+/** ---------- traversal ---------- */
+// Tree walks use explicit stacks: trees with tens of thousands of nested clades would overflow recursion.
+
+// Visits nodes parent-first in child order; returning false from `visit` skips that node's subtree.
+export function forEachNode(root: TreeNode, visit: (node: TreeNode, parent: TreeNode | null, depth: number) => void | boolean) {
+  const stack: { node: TreeNode; parent: TreeNode | null; depth: number }[] = [{ node: root, parent: null, depth: 0 }];
+  while (stack.length) {
+    const { node, parent, depth } = stack.pop() as (typeof stack)[number];
+    if (visit(node, parent, depth) === false) continue;
+    const children = node.children;
+    if (!children) continue;
+    for (let k = children.length - 1; k >= 0; k--) stack.push({ node: children[k], parent: node, depth: depth + 1 });
+  }
+}
+// Nodes in parent-first order; iterate it backwards to see every child before its parent.
+export function listNodes(root: TreeNode): TreeNode[] {
+  const nodes: TreeNode[] = [];
+  forEachNode(root, (node) => {
+    nodes.push(node);
+  });
+  return nodes;
+}
+export function collectTips(node: TreeNode, arr: TreeNode[] = []): TreeNode[] {
+  forEachNode(node, (n) => {
+    if (!n.children?.length) arr.push(n);
+  });
+  return arr;
+}
+
+// Flat preorder form for postMessage: structured cloning a deeply nested tree overflows the stack.
+export type FlatTree = { nodes: TreeNode[]; parents: number[] };
+export function flattenTree(root: TreeNode): FlatTree {
+  const nodes: TreeNode[] = [];
+  const parents: number[] = [];
+  const index = new Map<TreeNode, number>();
+  forEachNode(root, (node, parent) => {
+    index.set(node, nodes.length);
+    const copy = { ...node };
+    delete copy.children;
+    nodes.push(copy);
+    parents.push(parent ? (index.get(parent) as number) : -1);
+  });
+  return { nodes, parents };
+}
+export function inflateTree(flat: FlatTree): TreeNode {
+  const { nodes, parents } = flat;
+  for (let k = 1; k < nodes.length; k++) {
+    const parent = nodes[parents[k]];
+    (parent.children ??= []).push(nodes[k]);
+  }
+  return nodes[0];
+}
+
+/** ---------- layout ---------- */
+// The shape of a tree as preorder arrays: `parents[k]` is below k (-1 for the root), a missing length is NaN.
+export type TreeLayoutInput = { parents: Int32Array; lengths: Float64Array; cladoOffsets: Float64Array };
+// Unscaled x (root-to-node distance, or the cladogram position in 0–1) and y for each preorder index.
+export type TreeLayoutPositions = { x: Float64Array; y: Float64Array };
+// The preorder nodes of a tree with their layout input.
+export function toTreeLayoutInput(root: TreeNode): { nodes: TreeNode[]; input: TreeLayoutInput } {
+  const nodes: TreeNode[] = [];
+  const parents: number[] = [];
+  const index = new Map<TreeNode, number>();
+  forEachNode(root, (node, parent) => {
+    index.set(node, nodes.length);
+    nodes.push(node);
+    parents.push(parent ? (index.get(parent) as number) : -1);
+  });
+  const input: TreeLayoutInput = {
+    parents: Int32Array.from(parents),
+    lengths: new Float64Array(nodes.length),
+    cladoOffsets: new Float64Array(nodes.length),
+  };
+  nodes.forEach((node, k) => {
+    input.lengths[k] = typeof node.length === "number" ? node.length : NaN;
+    const offset = node.__cladoOffset;
+    input.cladoOffsets[k] = typeof offset === "number" && Number.isFinite(offset) ? offset : 0;
+  });
+  return { nodes, input };
+}
+const LAYOUT_PROGRESS_STEP = 50_000;
+// Tips sit `yGap` apart in preorder and parents at the mean of their children. A phylogram places each node at
+// its distance from the root; a cladogram splits a unit budget evenly over the edges down to the deepest tip.
+export function computeTreeLayout(input: TreeLayoutInput, phylogram: boolean, yGap: number, onProgress?: (fraction: number) => void): TreeLayoutPositions {
+  const { parents, lengths, cladoOffsets } = input;
+  const n = parents.length;
+  const x = new Float64Array(n);
+  const y = new Float64Array(n);
+  const childCount = new Int32Array(n);
+  const height = new Int32Array(n);
+  const childY = new Float64Array(n);
+  const report = (k: number, pass: number) => {
+    if (onProgress && k % LAYOUT_PROGRESS_STEP === 0) onProgress((pass + k / n) / 3);
+  };
+  for (let k = 1; k < n; k++) childCount[parents[k]]++;
+  let leaf = 0;
+  for (let k = 0; k < n; k++) {
+    if (!childCount[k]) y[k] = leaf++ * yGap;
+    report(k, 0);
+  }
+  // Children come after their parent in preorder, so a backward pass sees every child first.
+  for (let k = n - 1; k >= 0; k--) {
+    if (childCount[k]) y[k] = childY[k] / childCount[k];
+    const p = parents[k];
+    if (p >= 0) {
+      childY[p] += y[k];
+      if (height[p] < height[k] + 1) height[p] = height[k] + 1;
+    }
+    report(n - 1 - k, 1);
+  }
+  const budget = new Float64Array(n);
+  for (let k = 0; k < n; k++) {
+    const p = parents[k];
+    if (phylogram) {
+      x[k] = p < 0 ? 0 : x[p] + (Number.isFinite(lengths[k]) ? lengths[k] : 0);
+    } else if (p < 0) {
+      budget[k] = 1;
+      x[k] = cladoOffsets[k];
+    } else {
+      // d3's height counts edges to the deepest leaf; the inclusive height is one more.
+      const edge = budget[p] / Math.max(1, height[k] + 1);
+      budget[k] = Math.max(0, budget[p] - edge);
+      // The offset is applied when the parent places the child and again when the child is visited.
+      x[k] = x[p] + edge + 2 * cladoOffsets[k];
+    }
+    report(k, 2);
+  }
+  return { x, y };
+}
+
+/** ---------- background parsing ---------- */
+// Requests answered by treeWorker.ts; the page runs the same handler directly when no worker is available.
+export type TreeWorkerRequest =
+  | { id: number; type: "parse"; entries: NexusTree[] }
+  | { id: number; type: "diagnose"; text: string }
+  | { id: number; type: "layout"; input: TreeLayoutInput; phylogram: boolean; yGap: number };
+export type TreeWorkerResponse =
+  | { id: number; type: "progress"; fraction: number }
+  | { id: number; type: "parsed"; trees: { name: string; tree: FlatTree }[] }
+  | { id: number; type: "diagnosed"; diagnostics: NewickDiagnostic[] }
+  | { id: number; type: "laidOut"; positions: TreeLayoutPositions }
+  | { id: number; type: "error"; message: string };
+export function handleTreeWorkerRequest(request: TreeWorkerRequest, post: (response: TreeWorkerResponse) => void) {
+  const { id } = request;
+  try {
+    if (request.type === "diagnose") {
+      post({ id, type: "diagnosed", diagnostics: diagnoseNewickText(request.text) });
+      return;
+    }
+    if (request.type === "layout") {
+      const positions = computeTreeLayout(request.input, request.phylogram, request.yGap, (fraction) => post({ id, type: "progress", fraction }));
+      post({ id, type: "laidOut", positions });
+      return;
+    }
+    const { entries } = request;
+    const trees = entries.map((entry, index) => {
+      try {
+        const tree = parseNewick(entry.newick, (fraction) => post({ id, type: "progress", fraction: (index + fraction) / entries.length }));
+        return { name: entry.name, tree: flattenTree(tree) };
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        throw new Error(entries.length > 1 ? `${entry.name} (#${index + 1}): ${message}` : message);
+      }
+    });
+    post({ id, type: "parsed", trees });
+  } catch (e) {
+    post({ id, type: "error", message: e instanceof Error ? e.message : String(e) });
+  }
+}
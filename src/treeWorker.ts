@@ -0,0 +1,7 @@
+import { handleTreeWorkerRequest } from "./newick";
+import type { TreeWorkerRequest } from "./newick";
+
+// Parses NEWICK text and lays out trees off the main thread so opening very large trees keeps the page responsive.
+self.onmessage = (event: MessageEvent<TreeWorkerRequest>) => {
+  handleTreeWorkerRequest(event.data, (response) => self.postMessage(response));
+};